@@ -14,6 +14,10 @@ WITH (m = 16, ef_construction = 64);
 -- ON document_chunks USING ivfflat (embedding vector_cosine_ops) 
 -- WITH (lists = 100);
 
+-- HNSW index for semantic answer cache lookups
+CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_answer_cache_embedding_hnsw 
+ON answer_cache USING hnsw (embedding vector_cosine_ops);
+
 -- Create additional indexes for filtering
 CREATE INDEX IF NOT EXISTS idx_document_chunks_document_id ON document_chunks(document_id);
 CREATE INDEX IF NOT EXISTS idx_documents_file_type ON documents(file_type);
@@ -32,15 +32,143 @@ CREATE TABLE IF NOT EXISTS search_logs (
     id TEXT PRIMARY KEY DEFAULT ('c' || encode(gen_random_bytes(12), 'base64')),
     user_id VARCHAR(100),
     query TEXT NOT NULL,
+    query_language VARCHAR(10),
+    translated_query TEXT,
     results JSONB,
+    confidence FLOAT,
+    prompt_version VARCHAR(100),
+    guardrail_category VARCHAR(30),
+    guardrail_action VARCHAR(20),
     response_time FLOAT DEFAULT 0,
     created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Add confidence to search_logs created before it was persisted
+ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS confidence FLOAT;
+
+-- Add prompt_version to search_logs created before the prompt template registry
+ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS prompt_version VARCHAR(100);
+
+-- Add query language and translation to search_logs created before cross-lingual retrieval
+ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS query_language VARCHAR(10);
+ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS translated_query TEXT;
+
+-- Add guardrail decisions to search_logs created before the medical safety guardrails
+ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS guardrail_category VARCHAR(30);
+ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS guardrail_action VARCHAR(20);
+
+-- Create conversations table
+CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY DEFAULT ('c' || encode(gen_random_bytes(12), 'base64')),
+    user_id VARCHAR(100),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create conversation_turns table
+CREATE TABLE IF NOT EXISTS conversation_turns (
+    id TEXT PRIMARY KEY DEFAULT ('c' || encode(gen_random_bytes(12), 'base64')),
+    conversation_id TEXT NOT NULL,
+    question TEXT NOT NULL,
+    standalone_question TEXT,
+    answer TEXT NOT NULL,
+    response_id VARCHAR(100),
+    created_at TIMESTAMP DEFAULT NOW(),
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+);
+
+-- Create answer_cache table
+CREATE TABLE IF NOT EXISTS answer_cache (
+    id TEXT PRIMARY KEY DEFAULT ('c' || encode(gen_random_bytes(12), 'base64')),
+    question TEXT NOT NULL,
+    embedding vector(1536),
+    response_mode VARCHAR(50) NOT NULL,
+    language VARCHAR(10) NOT NULL,
+    variant VARCHAR(100) NOT NULL,
+    response JSONB NOT NULL,
+    document_ids TEXT[] NOT NULL DEFAULT '{}',
+    hit_count INTEGER DEFAULT 0,
+    last_hit_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create prompt_templates table
+CREATE TABLE IF NOT EXISTS prompt_templates (
+    id TEXT PRIMARY KEY DEFAULT ('c' || encode(gen_random_bytes(12), 'base64')),
+    mode VARCHAR(50) NOT NULL DEFAULT '*',
+    language VARCHAR(10) NOT NULL DEFAULT '*',
+    version INTEGER NOT NULL,
+    system_prompt TEXT NOT NULL,
+    user_prompt TEXT NOT NULL,
+    description TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft',
+    traffic_weight INTEGER NOT NULL DEFAULT 100,
+    created_at TIMESTAMP DEFAULT NOW(),
+    activated_at TIMESTAMP,
+    UNIQUE (mode, language, version)
+);
+
+-- Create evaluation_runs table
+CREATE TABLE IF NOT EXISTS evaluation_runs (
+    id TEXT PRIMARY KEY DEFAULT ('c' || encode(gen_random_bytes(12), 'base64')),
+    name TEXT,
+    dataset TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running',
+    config JSONB NOT NULL,
+    metrics JSONB,
+    results JSONB,
+    error TEXT,
+    started_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP
+);
+
+-- Create usage_records table
+CREATE TABLE IF NOT EXISTS usage_records (
+    id TEXT PRIMARY KEY DEFAULT ('c' || encode(gen_random_bytes(12), 'base64')),
+    response_id TEXT,
+    user_id TEXT,
+    response_mode VARCHAR(50),
+    operation VARCHAR(20) NOT NULL,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd DOUBLE PRECISION NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create answer_feedback table
+CREATE TABLE IF NOT EXISTS answer_feedback (
+    id TEXT PRIMARY KEY DEFAULT ('c' || encode(gen_random_bytes(12), 'base64')),
+    response_id VARCHAR(100) NOT NULL UNIQUE,
+    user_id VARCHAR(100),
+    rating VARCHAR(10) NOT NULL,
+    reason VARCHAR(30),
+    comment TEXT,
+    query TEXT NOT NULL,
+    answer TEXT,
+    response_mode VARCHAR(50),
+    prompt_version VARCHAR(100),
+    chunk_ids TEXT[] NOT NULL DEFAULT '{}',
+    sources TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Create indexes
 CREATE INDEX IF NOT EXISTS idx_document_chunks_document_id ON document_chunks(document_id);
 CREATE INDEX IF NOT EXISTS idx_documents_file_type ON documents(file_type);
 CREATE INDEX IF NOT EXISTS idx_documents_created_at ON documents(created_at);
+CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id);
+CREATE INDEX IF NOT EXISTS idx_conversation_turns_conversation_id ON conversation_turns(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_answer_cache_mode_language ON answer_cache(response_mode, language);
+CREATE INDEX IF NOT EXISTS idx_answer_cache_document_ids ON answer_cache USING GIN(document_ids);
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_status ON prompt_templates(status);
+CREATE INDEX IF NOT EXISTS idx_evaluation_runs_started_at ON evaluation_runs(started_at);
+CREATE INDEX IF NOT EXISTS idx_usage_records_response_id ON usage_records(response_id);
+CREATE INDEX IF NOT EXISTS idx_usage_records_user_id_created_at ON usage_records(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_records_created_at ON usage_records(created_at);
+CREATE INDEX IF NOT EXISTS idx_search_logs_response_id ON search_logs((results->>'responseId'));
+CREATE INDEX IF NOT EXISTS idx_answer_feedback_rating_created_at ON answer_feedback(rating, created_at);
 
 -- Show created tables
 SELECT tablename FROM pg_tables WHERE schemaname = 'public';
@@ -71,6 +71,8 @@ export class PrismaService
     distance: number;
     similarity: number;
     chunk_index: number;
+    start_position: number;
+    end_position: number;
   }>> {
     const vectorString = `[${queryEmbedding.join(',')}]`;
 
@@ -80,6 +82,8 @@ export class PrismaService
         dc.content,
         dc.document_id,
         dc.chunk_index,
+        dc.start_position,
+        dc.end_position,
         d.filename,
         d.file_type,
         (dc.embedding <=> ${vectorString}::vector) as distance,
@@ -95,6 +99,8 @@ export class PrismaService
       content: string;
       document_id: string;
       chunk_index: number;
+      start_position: number;
+      end_position: number;
       filename: string;
       file_type: string;
       distance: number;
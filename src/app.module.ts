@@ -5,6 +5,8 @@ import { HealthModule } from './health/health.module';
 import { TelegramModule } from './telegram/telegram.module';
 import { DropboxModule } from './dropbox/dropbox.module';
 import { DocumentsModule } from './document/document.module';
+import { EvaluationModule } from './evaluation/evaluation.module';
+import { UsageModule } from './usage/usage.module';
 
 @Module({
   imports: [
@@ -17,6 +19,8 @@ import { DocumentsModule } from './document/document.module';
     TelegramModule,
     DropboxModule,
     DocumentsModule,
+    EvaluationModule,
+    UsageModule,
   ],
 })
 export class AppModule {}
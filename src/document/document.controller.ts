@@ -6,6 +6,8 @@ import {
   Param,
   Query,
   Body,
+  Req,
+  Res,
   Logger,
   HttpException,
   HttpStatus,
@@ -16,14 +18,35 @@ import {
   ApiResponse,
   ApiQuery,
   ApiParam,
+  ApiProduces,
 } from '@nestjs/swagger';
+import { Request, Response } from 'express';
 import { DocumentsService } from './document.service';
 import { ParsersService } from './parsers/parsers.service';
 import { SearchService } from './services/search.service';
 import { EmbeddingService } from './services/embedding.service';
 import { RagService } from './services/rag.service';
+import { ConversationService } from './services/conversation.service';
+import { AnswerCacheService } from './services/answer-cache.service';
+import { FeedbackService } from './services/feedback.service';
 import { SearchDocumentsDto, SearchResponseDto } from './dto/search.dto';
-import { RagQueryDto, RagResponseDto, RagAnalyticsDto } from './dto/rag.dto';
+import {
+  AnswerFormat,
+  RagQueryDto,
+  RagResponseDto,
+  RagAnalyticsDto,
+  ResponseMode,
+} from './dto/rag.dto';
+import { ConversationDto, CreateConversationDto } from './dto/conversation.dto';
+import {
+  AnswerFeedbackDto,
+  AnswerFeedbackRequestDto,
+  FEEDBACK_COMMENT_MAX_LENGTH,
+  FeedbackRating,
+  FeedbackReason,
+  NegativeFeedbackCaseDto,
+} from './dto/feedback.dto';
+import { CircuitOpenError } from './llm/resilient-openai.client';
 
 @ApiTags('Documents')
 @Controller('documents')
@@ -36,6 +59,9 @@ export class DocumentsController {
     private readonly searchService: SearchService,
     private readonly embeddingService: EmbeddingService,
     private readonly ragService: RagService,
+    private readonly conversationService: ConversationService,
+    private readonly answerCacheService: AnswerCacheService,
+    private readonly feedbackService: FeedbackService,
   ) {}
 
   @Post('process-all')
@@ -555,15 +581,40 @@ export class DocumentsController {
     status: 400,
     description: 'Invalid query parameters',
   })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation not found',
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'OpenAI is failing repeatedly, retry later',
+  })
   @ApiResponse({
     status: 500,
     description: 'Answer generation failed',
   })
   async askQuestion(@Body() ragQuery: RagQueryDto): Promise<RagResponseDto> {
+    if (
+      ragQuery.responseMode === ResponseMode.RESEARCH &&
+      ragQuery.format === AnswerFormat.JSON
+    ) {
+      throw new HttpException(
+        'format "json" is not supported in research mode',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
     try {
       this.logger.log(`RAG question: "${ragQuery.question}"`);
       return await this.ragService.generateAnswer(ragQuery);
     } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      if (error instanceof CircuitOpenError) {
+        throw new HttpException(error.message, HttpStatus.SERVICE_UNAVAILABLE);
+      }
+
       this.logger.error(`RAG question failed: ${error.message}`);
       throw new HttpException(
         `Answer generation failed: ${error.message}`,
@@ -572,23 +623,121 @@ export class DocumentsController {
     }
   }
 
+  @Post('ask/stream')
+  @ApiOperation({
+    summary:
+      'Ask a question using RAG with a streamed answer (Server-Sent Events)',
+    description:
+      'Emits a "context" event with retrieved chunks and sources, then "token" events with answer deltas, then a "done" event with the final answer, confidence, timings and responseId. The deltas are the raw model output: they still contain the [n] source markers and any claims that verification removes, so clients should replace the streamed text with "done.answer" when it arrives. Failures after the stream has started are reported as an "error" event.',
+  })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({
+    status: 200,
+    description: 'Event stream started',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'JSON answers cannot be streamed',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation not found',
+  })
+  async askQuestionStream(
+    @Body() ragQuery: RagQueryDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ): Promise<void> {
+    this.logger.log(`RAG stream question: "${ragQuery.question}"`);
+
+    // A partial JSON object is of no use to the client, so JSON answers go through POST /ask
+    if (ragQuery.format === AnswerFormat.JSON) {
+      throw new HttpException(
+        'format "json" is not supported for streaming, use POST /documents/ask',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // Tool calls happen before any answer text, so there is nothing to stream meanwhile
+    if (ragQuery.responseMode === ResponseMode.RESEARCH) {
+      throw new HttpException(
+        'responseMode "research" is not supported for streaming, use POST /documents/ask',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // Once the headers are sent errors can only be reported as events
+    if (
+      ragQuery.conversationId &&
+      !(await this.conversationService.getConversation(ragQuery.conversationId))
+    ) {
+      throw new HttpException('Conversation not found', HttpStatus.NOT_FOUND);
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+    res.flushHeaders();
+
+    let clientClosed = false;
+    res.on('close', () => {
+      clientClosed = !res.writableEnded;
+    });
+
+    try {
+      for await (const event of this.ragService.streamAnswer(ragQuery)) {
+        if (clientClosed) {
+          this.logger.debug(`Client disconnected from RAG stream (${req.ip})`);
+          break;
+        }
+        res.write(
+          `event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`,
+        );
+      }
+    } catch (error: any) {
+      this.logger.error(`RAG stream failed: ${error.message}`);
+      if (!clientClosed) {
+        const payload = JSON.stringify({ message: error.message });
+        res.write(`event: error\ndata: ${payload}\n\n`);
+      }
+    } finally {
+      res.end();
+    }
+  }
+
   @Post('ask/quick')
   @ApiOperation({
     summary: 'Ask a quick question (concise response)',
     description: 'Get a brief, concise answer to your question',
   })
-  async askQuickQuestion(@Body() body: { question: string; userId?: string }) {
+  async askQuickQuestion(
+    @Body()
+    body: {
+      question: string;
+      userId?: string;
+      conversationId?: string;
+    },
+  ) {
     try {
       const ragQuery: RagQueryDto = {
         question: body.question,
         responseMode: 'concise' as any,
-        maxContextChunks: 3,
+        contextTokenBudget: 2000,
         similarityThreshold: 0.3,
         userId: body.userId,
+        conversationId: body.conversationId,
       };
       
       return await this.ragService.generateAnswer(ragQuery);
     } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      if (error instanceof CircuitOpenError) {
+        throw new HttpException(error.message, HttpStatus.SERVICE_UNAVAILABLE);
+      }
+
       this.logger.error(`Quick question failed: ${error.message}`);
       throw new HttpException(
         `Quick answer generation failed: ${error.message}`,
@@ -602,18 +751,33 @@ export class DocumentsController {
     summary: 'Ask a detailed question (comprehensive response)',
     description: 'Get a detailed, comprehensive answer with full context',
   })
-  async askDetailedQuestion(@Body() body: { question: string; userId?: string }) {
+  async askDetailedQuestion(
+    @Body()
+    body: {
+      question: string;
+      userId?: string;
+      conversationId?: string;
+    },
+  ) {
     try {
       const ragQuery: RagQueryDto = {
         question: body.question,
         responseMode: 'detailed' as any,
-        maxContextChunks: 8,
+        contextTokenBudget: 4000,
         similarityThreshold: 0.2,
         userId: body.userId,
+        conversationId: body.conversationId,
       };
       
       return await this.ragService.generateAnswer(ragQuery);
     } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      if (error instanceof CircuitOpenError) {
+        throw new HttpException(error.message, HttpStatus.SERVICE_UNAVAILABLE);
+      }
+
       this.logger.error(`Detailed question failed: ${error.message}`);
       throw new HttpException(
         `Detailed answer generation failed: ${error.message}`,
@@ -622,6 +786,139 @@ export class DocumentsController {
     }
   }
 
+  @Post('ask/:responseId/feedback')
+  @ApiOperation({
+    summary: 'Rate an answer',
+    description:
+      'Record whether an answer was helpful, with an optional reason and comment. Rating the same answer again replaces the earlier feedback.',
+  })
+  @ApiParam({ name: 'responseId', description: 'RAG response ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Feedback recorded',
+    type: AnswerFeedbackDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid rating or reason' })
+  @ApiResponse({
+    status: 404,
+    description:
+      'Response not found; answers given without context are not logged and cannot be rated',
+  })
+  async submitFeedback(
+    @Param('responseId') responseId: string,
+    @Body() body: AnswerFeedbackRequestDto,
+  ): Promise<AnswerFeedbackDto> {
+    if (!Object.values(FeedbackRating).includes(body.rating)) {
+      throw new HttpException(
+        `rating must be one of: ${Object.values(FeedbackRating).join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (body.reason && !Object.values(FeedbackReason).includes(body.reason)) {
+      throw new HttpException(
+        `reason must be one of: ${Object.values(FeedbackReason).join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (
+      body.comment !== undefined &&
+      (typeof body.comment !== 'string' ||
+        body.comment.length > FEEDBACK_COMMENT_MAX_LENGTH)
+    ) {
+      throw new HttpException(
+        `comment must be a string of at most ${FEEDBACK_COMMENT_MAX_LENGTH} characters`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    try {
+      const feedback = await this.feedbackService.submitFeedback(
+        responseId,
+        body,
+      );
+
+      if (!feedback) {
+        throw new HttpException('Response not found', HttpStatus.NOT_FOUND);
+      }
+
+      return feedback;
+    } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Failed to record feedback: ${error.message}`);
+      throw new HttpException(
+        `Feedback recording failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // ==================== CONVERSATION ENDPOINTS ====================
+
+  @Post('conversations')
+  @ApiOperation({
+    summary: 'Start a conversation',
+    description:
+      'Create a conversation whose ID can be passed as conversationId to the ask endpoints for multi-turn dialogue',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Conversation created',
+    type: ConversationDto,
+  })
+  async createConversation(
+    @Body() body: CreateConversationDto,
+  ): Promise<ConversationDto> {
+    try {
+      return await this.conversationService.createConversation(body.userId);
+    } catch (error: any) {
+      this.logger.error(`Failed to create conversation: ${error.message}`);
+      throw new HttpException(
+        `Conversation creation failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('conversations/:id')
+  @ApiOperation({
+    summary: 'Get conversation',
+    description: 'Retrieve a conversation with all its question/answer turns',
+  })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Conversation retrieved successfully',
+    type: ConversationDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation not found',
+  })
+  async getConversation(@Param('id') id: string): Promise<ConversationDto> {
+    try {
+      const conversation = await this.conversationService.getConversation(id);
+
+      if (!conversation) {
+        throw new HttpException('Conversation not found', HttpStatus.NOT_FOUND);
+      }
+
+      return conversation;
+    } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Failed to get conversation: ${error.message}`);
+      throw new HttpException(
+        `Conversation retrieval failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Get('rag/analytics')
   @ApiOperation({
     summary: 'Get RAG system analytics',
@@ -644,6 +941,71 @@ export class DocumentsController {
     }
   }
 
+  @Get('rag/feedback/negative')
+  @ApiOperation({
+    summary: 'Export negative feedback',
+    description:
+      'Answers rated unhelpful, newest first, with the question, answer, reason, prompt version and the text of the chunks they were based on',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Maximum cases (default 100, at most 1000)',
+  })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    description: 'ISO date, inclusive',
+  })
+  @ApiQuery({ name: 'to', required: false, description: 'ISO date, exclusive' })
+  @ApiResponse({
+    status: 200,
+    description: 'Negative feedback cases',
+    type: [NegativeFeedbackCaseDto],
+  })
+  @ApiResponse({ status: 400, description: 'Invalid date' })
+  async getNegativeFeedback(
+    @Query('limit') limit: string = '100',
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<NegativeFeedbackCaseDto[]> {
+    const limitNum = Math.min(Math.max(parseInt(limit, 10) || 100, 1), 1000);
+    const fromDate = this.parseDate('from', from);
+    const toDate = this.parseDate('to', to);
+
+    try {
+      return await this.feedbackService.getNegativeCases(
+        limitNum,
+        fromDate,
+        toDate,
+      );
+    } catch (error: any) {
+      this.logger.error(`Failed to export negative feedback: ${error.message}`);
+      throw new HttpException(
+        `Feedback export failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete('rag/cache')
+  @ApiOperation({
+    summary: 'Clear the semantic answer cache',
+    description:
+      'Remove all cached answers, e.g. after changing prompts or models',
+  })
+  async clearAnswerCache(): Promise<{ cleared: number }> {
+    try {
+      return { cleared: await this.answerCacheService.clear() };
+    } catch (error: any) {
+      this.logger.error(`Failed to clear answer cache: ${error.message}`);
+      throw new HttpException(
+        `Answer cache clearing failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Get('rag/health')
   @ApiOperation({
     summary: 'Check RAG system health',
@@ -684,6 +1046,7 @@ export class DocumentsController {
           rag: {
             status: 'ok',
             responseGenerated: ragTest.answer.length > 0,
+            model: ragTest.model,
             totalTime: ragTest.totalTime,
             confidence: ragTest.confidence,
           },
@@ -699,4 +1062,19 @@ export class DocumentsController {
       };
     }
   }
+
+  private parseDate(name: string, value?: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new HttpException(
+        `${name} must be an ISO date`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return date;
+  }
 }
@@ -5,13 +5,67 @@ import { ParsersService } from './parsers/parsers.service';
 import { SearchService } from './services/search.service';
 import { EmbeddingService } from './services/embedding.service';
 import { RagService } from './services/rag.service';
+import { ConversationService } from './services/conversation.service';
+import { CitationService } from './services/citation.service';
+import { FaithfulnessService } from './services/faithfulness.service';
+import { QueryExpansionService } from './services/query-expansion.service';
+import { QueryTranslationService } from './services/query-translation.service';
+import { LocaleService } from './services/locale.service';
+import { GuardrailService } from './services/guardrail.service';
+import { PromptSafetyService } from './services/prompt-safety.service';
+import { ContextBuilderService } from './services/context-builder.service';
+import { ConfidenceService } from './services/confidence.service';
+import { AnswerCacheService } from './services/answer-cache.service';
+import { StructuredAnswerService } from './services/structured-answer.service';
+import { ExtractiveAnswerService } from './services/extractive-answer.service';
+import { SuggestedQuestionsService } from './services/suggested-questions.service';
+import { ResearchAgentService } from './services/research-agent.service';
+import { FeedbackService } from './services/feedback.service';
+import { llmProvider } from './llm/llm-provider.factory';
+import { LLM_PROVIDER } from './llm/llm-provider.interface';
+import { rerankerProvider } from './rerank/reranker.factory';
 import { DropboxModule } from '../dropbox/dropbox.module';
+import { PromptModule } from '../prompt/prompt.module';
+import { UsageModule } from '../usage/usage.module';
 import { PrismaModule } from '../../prisma/prisma.module';
 
 @Module({
-  imports: [DropboxModule, PrismaModule],
+  imports: [DropboxModule, PrismaModule, PromptModule, UsageModule],
   controllers: [DocumentsController],
-  providers: [DocumentsService, ParsersService, SearchService, EmbeddingService, RagService],
-  exports: [DocumentsService, ParsersService, SearchService, EmbeddingService, RagService],
+  providers: [
+    DocumentsService,
+    ParsersService,
+    SearchService,
+    EmbeddingService,
+    RagService,
+    ConversationService,
+    CitationService,
+    FaithfulnessService,
+    QueryExpansionService,
+    QueryTranslationService,
+    LocaleService,
+    GuardrailService,
+    PromptSafetyService,
+    ContextBuilderService,
+    ConfidenceService,
+    AnswerCacheService,
+    StructuredAnswerService,
+    ExtractiveAnswerService,
+    SuggestedQuestionsService,
+    ResearchAgentService,
+    FeedbackService,
+    llmProvider,
+    rerankerProvider,
+  ],
+  exports: [
+    DocumentsService,
+    ParsersService,
+    SearchService,
+    EmbeddingService,
+    RagService,
+    ConversationService,
+    FeedbackService,
+    LLM_PROVIDER,
+  ],
 })
 export class DocumentsModule {}
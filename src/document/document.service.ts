@@ -2,6 +2,9 @@ import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { DropboxService, DropboxFileContent } from '../dropbox/dropbox.service';
 import { ParsersService } from './parsers/parsers.service';
+import { AnswerCacheService } from './services/answer-cache.service';
+import { EmbeddingService } from './services/embedding.service';
+import { CircuitOpenError } from './llm/resilient-openai.client';
 
 export interface ProcessedDocument {
   id: string;
@@ -26,6 +29,8 @@ export class DocumentsService {
     private prisma: PrismaService,
     private dropboxService: DropboxService,
     private parsersService: ParsersService,
+    private answerCache: AnswerCacheService,
+    private embeddingService: EmbeddingService,
   ) {}
 
   async processAllDocuments(): Promise<{
@@ -225,6 +230,9 @@ export class DocumentsService {
           where: { documentId: existingDoc.id },
         });
 
+        // Cached answers quote the old content
+        await this.answerCache.invalidateDocuments([existingDoc.id]);
+
         this.logger.debug(`Updated existing document: ${file.name}`);
       } else {
         // Create new document
@@ -347,6 +355,8 @@ export class DocumentsService {
   }
 
   async deleteDocument(id: string) {
+    await this.answerCache.invalidateDocuments([id]);
+
     // Chunks will be deleted automatically due to cascade
     return this.prisma.document.delete({
       where: { id },
@@ -426,10 +436,11 @@ export class DocumentsService {
     let processed = 0;
     let failed = 0;
     const batchSize = 10; // Process in small batches to avoid rate limits
-
-    // Import EmbeddingService dynamically to avoid circular dependency
-    const { EmbeddingService } = await import('./services/embedding.service');
-    const embeddingService = new EmbeddingService();
+    // Rate limits are retried by the OpenAI client; when its circuit opens, wait
+    // for it to half-open and retry the batch, up to this many times in a row
+    const maxCircuitWaits = 3;
+    let circuitWaits = 0;
+    let stopped = false;
 
     for (let i = 0; i < chunksWithoutEmbeddings.length; i += batchSize) {
       const batch = chunksWithoutEmbeddings.slice(i, i + batchSize);
@@ -437,7 +448,8 @@ export class DocumentsService {
       try {
         // Generate embeddings for the batch
         const contents = batch.map(chunk => chunk.content);
-        const embeddings = await embeddingService.generateEmbeddings(contents);
+        const embeddings =
+          await this.embeddingService.generateEmbeddings(contents);
 
         // Update database with embeddings
         for (let j = 0; j < batch.length; j++) {
@@ -464,10 +476,29 @@ export class DocumentsService {
           this.logger.log(`Embedding progress: ${progress}% (${processed} processed, ${failed} failed)`);
         }
 
-        // Small delay to respect rate limits
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
+        circuitWaits = 0;
       } catch (error: any) {
+        if (error instanceof CircuitOpenError) {
+          if (circuitWaits < maxCircuitWaits) {
+            circuitWaits++;
+            this.logger.warn(
+              `OpenAI unavailable, retrying batch at index ${i} in ${error.retryAfterMs}ms`,
+            );
+            await new Promise((resolve) =>
+              setTimeout(resolve, error.retryAfterMs),
+            );
+            i -= batchSize; // Same batch again
+            continue;
+          }
+
+          // The remaining chunks keep no embedding and are picked up by the next run
+          this.logger.error(
+            `Stopping embedding generation at index ${i}: ${error.message}`,
+          );
+          stopped = true;
+          break;
+        }
+
         this.logger.error(`Failed to process batch starting at index ${i}: ${error.message}`);
         failed += batch.length;
       }
@@ -480,8 +511,15 @@ export class DocumentsService {
       `Embedding generation completed: ${processed} processed, ${failed} failed in ${estimatedTimeMinutes} minutes`
     );
 
+    // Newly searchable chunks may change the answer to any cached question
+    if (processed > 0) {
+      await this.answerCache.clear();
+    }
+
     return {
-      message: 'Embedding generation completed',
+      message: stopped
+        ? 'Embedding generation stopped: OpenAI is unavailable'
+        : 'Embedding generation completed',
       totalChunks: totalWithoutEmbeddings,
       chunksWithoutEmbeddings: totalWithoutEmbeddings - processed - failed,
       processed,
@@ -0,0 +1,82 @@
+import { IsString, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateConversationDto {
+  @ApiPropertyOptional({
+    description: 'User ID the conversation belongs to',
+    example: 'user_123',
+  })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+}
+
+export class ConversationTurnDto {
+  @ApiProperty({
+    description: 'Turn ID',
+    example: 'turn_123',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Question as asked by the user',
+    example: 'And what about dosage?',
+  })
+  question: string;
+
+  @ApiPropertyOptional({
+    description: 'Follow-up question rewritten as a standalone query',
+    example: 'What is the recommended dosage of metformin for longevity?',
+  })
+  standaloneQuestion?: string | null;
+
+  @ApiProperty({
+    description: 'Generated answer',
+    example: 'Peter Attia mentions...',
+  })
+  answer: string;
+
+  @ApiPropertyOptional({
+    description: 'Response ID of the RAG answer',
+    example: 'rag_1692360000000_abc123def',
+  })
+  responseId?: string | null;
+
+  @ApiProperty({
+    description: 'When the turn was created',
+    example: '2025-08-18T12:00:00Z',
+  })
+  createdAt: Date;
+}
+
+export class ConversationDto {
+  @ApiProperty({
+    description: 'Conversation ID',
+    example: 'conv_123',
+  })
+  id: string;
+
+  @ApiPropertyOptional({
+    description: 'User ID the conversation belongs to',
+    example: 'user_123',
+  })
+  userId?: string | null;
+
+  @ApiProperty({
+    description: 'Conversation turns in chronological order',
+    type: [ConversationTurnDto],
+  })
+  turns: ConversationTurnDto[];
+
+  @ApiProperty({
+    description: 'When the conversation was started',
+    example: '2025-08-18T12:00:00Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'When the conversation was last updated',
+    example: '2025-08-18T12:05:00Z',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,126 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const FEEDBACK_COMMENT_MAX_LENGTH = 2000;
+
+export enum FeedbackRating {
+  POSITIVE = 'positive',
+  NEGATIVE = 'negative',
+}
+
+export enum FeedbackReason {
+  INCORRECT = 'incorrect',
+  INCOMPLETE = 'incomplete',
+  IRRELEVANT = 'irrelevant',
+  UNSUPPORTED = 'unsupported',
+  UNCLEAR = 'unclear',
+  OTHER = 'other',
+}
+
+export class AnswerFeedbackRequestDto {
+  @ApiProperty({
+    description: 'Whether the answer was helpful',
+    enum: FeedbackRating,
+    example: FeedbackRating.NEGATIVE,
+  })
+  @IsEnum(FeedbackRating)
+  rating: FeedbackRating;
+
+  @ApiPropertyOptional({
+    description: 'What was wrong with the answer',
+    enum: FeedbackReason,
+    example: FeedbackReason.INCOMPLETE,
+  })
+  @IsOptional()
+  @IsEnum(FeedbackReason)
+  reason?: FeedbackReason;
+
+  @ApiPropertyOptional({
+    description: 'Free-text comment',
+    example: 'It does not mention the dosage Attia uses himself',
+    maxLength: FEEDBACK_COMMENT_MAX_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(FEEDBACK_COMMENT_MAX_LENGTH)
+  comment?: string;
+
+  @ApiPropertyOptional({
+    description: 'User giving the feedback',
+    example: 'user_123',
+  })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+}
+
+export class AnswerFeedbackDto {
+  @ApiProperty({ description: 'Feedback ID' })
+  id: string;
+
+  @ApiProperty({
+    description: 'RAG response the feedback is about',
+    example: 'rag_1692360000000_abc123def',
+  })
+  responseId: string;
+
+  @ApiPropertyOptional({ description: 'User giving the feedback' })
+  userId?: string;
+
+  @ApiProperty({ enum: FeedbackRating })
+  rating: FeedbackRating;
+
+  @ApiPropertyOptional({ enum: FeedbackReason })
+  reason?: FeedbackReason;
+
+  @ApiPropertyOptional({ description: 'Free-text comment' })
+  comment?: string;
+
+  @ApiProperty({ description: 'Question that was answered' })
+  query: string;
+
+  @ApiPropertyOptional({ description: 'Response mode of the answer' })
+  responseMode?: string;
+
+  @ApiPropertyOptional({ description: 'Prompt template version of the answer' })
+  promptVersion?: string;
+
+  @ApiProperty({
+    description: 'Context chunks the answer was based on',
+    type: [String],
+  })
+  chunkIds: string[];
+
+  @ApiProperty({
+    description: 'Source documents of the answer',
+    type: [String],
+  })
+  sources: string[];
+
+  @ApiProperty({ description: 'When the feedback was first given' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'When the feedback was last changed' })
+  updatedAt: Date;
+}
+
+export class FeedbackChunkDto {
+  @ApiProperty({ description: 'Chunk ID' })
+  chunkId: string;
+
+  @ApiPropertyOptional({
+    description: 'Chunk text; missing if the chunk was re-ingested since',
+  })
+  content?: string;
+}
+
+export class NegativeFeedbackCaseDto extends AnswerFeedbackDto {
+  @ApiPropertyOptional({ description: 'Answer the user rated' })
+  answer?: string;
+
+  @ApiProperty({
+    description: 'Context chunks with their current text, for review',
+    type: [FeedbackChunkDto],
+  })
+  chunks: FeedbackChunkDto[];
+}
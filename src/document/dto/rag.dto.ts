@@ -1,17 +1,87 @@
-import { IsString, IsOptional, IsInt, IsEnum, Min, Max } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsEnum,
+  IsBoolean,
+  IsArray,
+  IsNotEmpty,
+  ValidateNested,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RetrievalMode } from './search.dto';
+import { AUTO_LANGUAGE } from '../locales';
 
 export enum ResponseMode {
   CONCISE = 'concise',
   DETAILED = 'detailed',
   BULLET_POINTS = 'bullet_points',
   ACADEMIC = 'academic',
+  PROTOCOL = 'protocol',
+  COMPARISON = 'comparison',
+  TIMELINE = 'timeline',
+  /** Verbatim quotes from the sources, without an LLM call */
+  EXTRACTIVE = 'extractive',
+  /** The LLM searches the knowledge base with tools over several steps before answering */
+  RESEARCH = 'research',
 }
 
-export enum ResponseLanguage {
-  ENGLISH = 'en',
-  RUSSIAN = 'ru',
-  AUTO = 'auto',
+export enum ExtractiveFallbackReason {
+  /** The user has spent their daily budget */
+  BUDGET_EXCEEDED = 'budget_exceeded',
+  /** The LLM call failed */
+  GENERATION_FAILED = 'generation_failed',
+}
+
+export enum VerificationMethod {
+  NONE = 'none',
+  LEXICAL = 'lexical',
+  LLM = 'llm',
+}
+
+export enum UnsupportedClaimPolicy {
+  FLAG = 'flag',
+  STRIP = 'strip',
+}
+
+export enum AnswerFormat {
+  TEXT = 'text',
+  JSON = 'json',
+}
+
+export enum EvidenceStrength {
+  STRONG = 'strong',
+  MODERATE = 'moderate',
+  WEAK = 'weak',
+  ANECDOTAL = 'anecdotal',
+}
+
+export enum ClaimSupport {
+  SUPPORTED = 'supported',
+  PARTIAL = 'partial',
+  UNSUPPORTED = 'unsupported',
+}
+
+export enum GuardrailCategory {
+  NONE = 'none',
+  EMERGENCY = 'emergency',
+  SELF_HARM = 'self_harm',
+  PRESCRIPTION_DOSING = 'prescription_dosing',
+  DIAGNOSIS = 'diagnosis',
+}
+
+export enum GuardrailAction {
+  /** Answer normally */
+  ALLOW = 'allow',
+  /** Answer and append a medical disclaimer */
+  DISCLAIMER = 'disclaimer',
+  /** Do not answer; point to emergency or crisis services */
+  REDIRECT = 'redirect',
+  /** Do not answer; explain why */
+  REFUSE = 'refuse',
 }
 
 export class RagQueryDto {
@@ -23,17 +93,45 @@ export class RagQueryDto {
   question: string;
 
   @ApiPropertyOptional({
-    description: 'Maximum number of context chunks to retrieve',
+    description:
+      'Maximum number of context chunks to retrieve. Defaults to 5, or 20 when contextTokenBudget is set so the budget decides',
     example: 5,
     minimum: 1,
     maximum: 20,
-    default: 5,
   })
   @IsOptional()
   @IsInt()
   @Min(1)
   @Max(20)
-  maxContextChunks?: number = 5;
+  maxContextChunks?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Input token budget for the prompt (system prompt, history, question and context). History may use up to 30% of it, oldest turns dropped first; chunks are then packed by relevance until it is spent, always keeping at least the top chunk',
+    example: 4000,
+    minimum: 500,
+    maximum: 100000,
+    default: 6000,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(500)
+  @Max(100000)
+  contextTokenBudget?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Adjacent chunks (by chunk index) to pull in on each side of a retrieved chunk and merge into one passage',
+    example: 1,
+    minimum: 0,
+    maximum: 3,
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(3)
+  neighborChunks?: number = 0;
 
   @ApiPropertyOptional({
     description: 'Minimum similarity threshold for context chunks',
@@ -47,6 +145,26 @@ export class RagQueryDto {
   @Max(1.0)
   similarityThreshold?: number = 0.3;
 
+  @ApiPropertyOptional({
+    description:
+      'Retrieval strategy: embed only the question, or also LLM-generated paraphrases of it',
+    enum: RetrievalMode,
+    default: RetrievalMode.SINGLE,
+  })
+  @IsOptional()
+  @IsEnum(RetrievalMode)
+  retrievalMode?: RetrievalMode = RetrievalMode.SINGLE;
+
+  @ApiPropertyOptional({
+    description:
+      'Also retrieve with a hypothetical answer passage (HyDE) in multi-query mode',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  hyde?: boolean = false;
+
   @ApiPropertyOptional({
     description: 'Response style and format',
     enum: ResponseMode,
@@ -57,13 +175,14 @@ export class RagQueryDto {
   responseMode?: ResponseMode = ResponseMode.DETAILED;
 
   @ApiPropertyOptional({
-    description: 'Response language',
-    enum: ResponseLanguage,
-    default: ResponseLanguage.AUTO,
+    description:
+      'Response language: a locale from SUPPORTED_LOCALES (e.g. en, ru, uk, de, es) or "auto" to answer in the language of the question. Unsupported locales fall back to "auto".',
+    example: 'de',
+    default: AUTO_LANGUAGE,
   })
   @IsOptional()
-  @IsEnum(ResponseLanguage)
-  language?: ResponseLanguage = ResponseLanguage.AUTO;
+  @IsString()
+  language?: string = AUTO_LANGUAGE;
 
   @ApiPropertyOptional({
     description: 'Include source citations in response',
@@ -73,6 +192,50 @@ export class RagQueryDto {
   @IsOptional()
   includeSources?: boolean = true;
 
+  @ApiPropertyOptional({
+    description:
+      'Allow serving a cached answer to a semantically equivalent earlier question',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  useCache?: boolean = true;
+
+  @ApiPropertyOptional({
+    description:
+      'Suggest follow-up questions that the knowledge base has content for',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  suggestQuestions?: boolean = true;
+
+  @ApiPropertyOptional({
+    description:
+      'Maximum tool-calling rounds in research mode before the model has to answer',
+    example: 6,
+    default: 6,
+    minimum: 1,
+    maximum: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  maxResearchSteps?: number = 6;
+
+  @ApiPropertyOptional({
+    description:
+      'Answer format: free text, or a validated structured object in `structured` (not supported for streaming)',
+    enum: AnswerFormat,
+    default: AnswerFormat.TEXT,
+  })
+  @IsOptional()
+  @IsEnum(AnswerFormat)
+  format?: AnswerFormat = AnswerFormat.TEXT;
+
   @ApiPropertyOptional({
     description: 'User ID for personalization and logging',
     example: 'user_123',
@@ -80,6 +243,35 @@ export class RagQueryDto {
   @IsOptional()
   @IsString()
   userId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Conversation ID for multi-turn dialogue. Follow-up questions are rewritten into standalone queries using prior turns.',
+    example: 'conv_123',
+  })
+  @IsOptional()
+  @IsString()
+  conversationId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'How to check answer claims against the retrieved context: lexical overlap (free), an NLI-style LLM call, or none. Answers in another language than the corpus are always checked by the LLM',
+    enum: VerificationMethod,
+    default: VerificationMethod.LEXICAL,
+  })
+  @IsOptional()
+  @IsEnum(VerificationMethod)
+  verification?: VerificationMethod = VerificationMethod.LEXICAL;
+
+  @ApiPropertyOptional({
+    description:
+      'What to do with claims not supported by the context: flag them in "claims" or strip them from the answer. An answer without any supported claim is kept and flagged',
+    enum: UnsupportedClaimPolicy,
+    default: UnsupportedClaimPolicy.FLAG,
+  })
+  @IsOptional()
+  @IsEnum(UnsupportedClaimPolicy)
+  unsupportedClaims?: UnsupportedClaimPolicy = UnsupportedClaimPolicy.FLAG;
 }
 
 export class ContextChunk {
@@ -118,6 +310,314 @@ export class ContextChunk {
     example: 'chunk_456',
   })
   chunkId: string;
+
+  @ApiProperty({
+    description: 'Start offset of the chunk within the document text',
+    example: 12800,
+  })
+  startPosition: number;
+
+  @ApiProperty({
+    description: 'End offset of the chunk within the document text',
+    example: 13750,
+  })
+  endPosition: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Relevance score assigned by the reranker (absent when reranking is disabled)',
+    example: 0.91,
+  })
+  rerankScore?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Position of the chunk in the vector search results before reranking (1-based)',
+    example: 7,
+  })
+  retrievalRank?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'True if trailing sentences were cut to fit the context token budget',
+    example: false,
+  })
+  truncated?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'IDs of the consecutive chunks merged into this passage, in document order',
+    example: ['chunk_455', 'chunk_456', 'chunk_457'],
+  })
+  mergedChunkIds?: string[];
+}
+
+export class CitationDto {
+  @ApiProperty({
+    description: 'Index of the sentence within the answer',
+    example: 0,
+  })
+  sentenceIndex: number;
+
+  @ApiProperty({
+    description: 'Answer sentence the citation supports',
+    example: 'Zone 2 training improves mitochondrial function.',
+  })
+  sentence: string;
+
+  @ApiProperty({
+    description:
+      'Start offset of the sentence within the answer (-1 if not found)',
+    example: 0,
+  })
+  answerStart: number;
+
+  @ApiProperty({
+    description:
+      'End offset of the sentence within the answer (-1 if not found)',
+    example: 48,
+  })
+  answerEnd: number;
+
+  @ApiProperty({
+    description: 'Supporting chunk ID',
+    example: 'chunk_456',
+  })
+  chunkId: string;
+
+  @ApiProperty({
+    description: 'Supporting document ID',
+    example: 'doc_123',
+  })
+  documentId: string;
+
+  @ApiProperty({
+    description: 'Supporting document filename',
+    example: '#250 ‒ Training principles for longevity.pdf',
+  })
+  documentFilename: string;
+
+  @ApiProperty({
+    description: 'Start offset of the supporting span within the chunk',
+    example: 120,
+  })
+  chunkStart: number;
+
+  @ApiProperty({
+    description: 'End offset of the supporting span within the chunk',
+    example: 310,
+  })
+  chunkEnd: number;
+
+  @ApiProperty({
+    description: 'Start offset of the supporting span within the document text',
+    example: 12920,
+  })
+  documentStart: number;
+
+  @ApiProperty({
+    description: 'End offset of the supporting span within the document text',
+    example: 13110,
+  })
+  documentEnd: number;
+
+  @ApiProperty({
+    description:
+      'Word overlap between the sentence and the supporting span (0-1)',
+    example: 0.75,
+  })
+  score: number;
+}
+
+export class ClaimVerificationDto {
+  @ApiProperty({
+    description: 'Index of the claim (answer sentence)',
+    example: 0,
+  })
+  claimIndex: number;
+
+  @ApiProperty({
+    description: 'Claim text',
+    example: 'Peter Attia takes 5 mg of rapamycin weekly.',
+  })
+  claim: string;
+
+  @ApiProperty({
+    description: 'Start offset of the claim within the verified answer',
+    example: 0,
+  })
+  start: number;
+
+  @ApiProperty({
+    description: 'End offset of the claim within the verified answer',
+    example: 43,
+  })
+  end: number;
+
+  @ApiProperty({
+    description: 'Whether the context supports the claim',
+    enum: ClaimSupport,
+  })
+  status: ClaimSupport;
+
+  @ApiProperty({
+    description: 'Support score (0-1)',
+    example: 0.82,
+  })
+  score: number;
+
+  @ApiPropertyOptional({
+    description: 'Chunk that best supports the claim',
+    example: 'chunk_456',
+  })
+  supportingChunkId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Why the claim was not fully supported',
+    example: 'Numbers not found in context: 5',
+  })
+  reason?: string;
+}
+
+export class RecommendationDto {
+  @ApiProperty({
+    description: 'What to do',
+    example: 'Zone 2 cardio',
+  })
+  @IsString()
+  @IsNotEmpty()
+  intervention: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Dose, intensity or amount as stated in the sources; left out if it has a dosage the sources do not contain',
+    example: 'Heart rate at which you can still talk, lactate ~2 mmol/L',
+  })
+  @IsOptional()
+  @IsString()
+  dose?: string;
+
+  @ApiPropertyOptional({
+    description: 'How often or for how long',
+    example: '3-4 sessions of 45-60 minutes per week',
+  })
+  @IsOptional()
+  @IsString()
+  frequency?: string;
+
+  @ApiProperty({
+    description: 'Strength of the evidence the sources give for it',
+    enum: EvidenceStrength,
+  })
+  @IsEnum(EvidenceStrength)
+  evidenceStrength: EvidenceStrength;
+
+  @ApiProperty({
+    description: 'Context chunks that support the recommendation',
+    example: ['chunk_456'],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  supportingChunkIds: string[];
+}
+
+export class StructuredAnswerDto {
+  @ApiProperty({
+    description: 'Short answer to the question',
+    example:
+      'Zone 2 training improves mitochondrial function and is the base of aerobic fitness.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  summary: string;
+
+  @ApiProperty({
+    description: 'Actionable recommendations found in the context',
+    type: [RecommendationDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RecommendationDto)
+  recommendations: RecommendationDto[];
+}
+
+export class GuardrailDecisionDto {
+  @ApiProperty({
+    description: 'Safety category of the question',
+    enum: GuardrailCategory,
+    example: GuardrailCategory.PRESCRIPTION_DOSING,
+  })
+  category: GuardrailCategory;
+
+  @ApiProperty({
+    description: 'What the guardrails did with the question and answer',
+    enum: GuardrailAction,
+    example: GuardrailAction.DISCLAIMER,
+  })
+  action: GuardrailAction;
+
+  @ApiPropertyOptional({
+    description:
+      'Dosages stated in the answer or its recommendations but not found in the context',
+    example: ['2000 mg'],
+  })
+  unsupportedDosages?: string[];
+}
+
+export class InjectionFindingDto {
+  @ApiProperty({
+    description: 'Where the suspicious content was found',
+    enum: ['question', 'context'],
+    example: 'context',
+  })
+  source: 'question' | 'context';
+
+  @ApiPropertyOptional({
+    description: 'Context chunk that contained it',
+    example: 'chunk_123',
+  })
+  chunkId?: string;
+
+  @ApiProperty({
+    description: 'Kind of injection that was neutralized',
+    example: 'ignore_instructions',
+  })
+  pattern: string;
+}
+
+/**
+ * One tool call made by the model in research mode
+ */
+export class ResearchStepDto {
+  @ApiProperty({ description: 'Tool-calling round, starting at 1', example: 1 })
+  step: number;
+
+  @ApiProperty({ description: 'Tool name', example: 'searchDocuments' })
+  tool: string;
+
+  @ApiProperty({
+    description: 'Arguments the model passed',
+    example: { query: 'rapamycin dosing for longevity' },
+  })
+  arguments: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Number of results returned', example: 4 })
+  resultCount: number;
+
+  @ApiProperty({
+    description:
+      'Source numbers the returned chunks were given; chunks already seen keep their number',
+    example: [6, 7, 8, 2],
+  })
+  sourceNumbers: number[];
+
+  @ApiPropertyOptional({
+    description: 'Why the call failed; the model is told and can try again',
+  })
+  error?: string;
+
+  @ApiProperty({ description: 'Time taken by the tool (ms)', example: 240 })
+  durationMs: number;
 }
 
 export class RagResponseDto {
@@ -164,7 +664,8 @@ export class RagResponseDto {
   totalTime: number;
 
   @ApiProperty({
-    description: 'Confidence score of the answer (0-1)',
+    description:
+      'Provisional confidence score of the answer (0-1). The weights are hand-set and not yet fitted on evaluation data, so use it to rank answers rather than as a calibrated probability',
     example: 0.92,
   })
   confidence: number;
@@ -176,16 +677,44 @@ export class RagResponseDto {
   sources: string[];
 
   @ApiProperty({
-    description: 'Response mode used',
+    description: 'Answer sentences mapped to the chunk spans that support them',
+    type: [CitationDto],
+  })
+  citations: CitationDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Share of the answer supported by the retrieved context (0-1), absent when verification is disabled',
+    example: 0.9,
+  })
+  groundedness?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Per-claim support status, absent when verification is disabled',
+    type: [ClaimVerificationDto],
+  })
+  claims?: ClaimVerificationDto[];
+
+  @ApiProperty({
+    description:
+      'Response mode used; "extractive" when the answer fell back to quotes from the sources',
     enum: ResponseMode,
   })
   responseMode: ResponseMode;
 
+  @ApiPropertyOptional({
+    description:
+      'Why the answer fell back to extractive quotes instead of the requested mode',
+    enum: ExtractiveFallbackReason,
+  })
+  fallbackReason?: ExtractiveFallbackReason;
+
   @ApiProperty({
-    description: 'Language of the response',
-    enum: ResponseLanguage,
+    description: 'Requested response language (locale code or "auto")',
+    example: 'auto',
   })
-  language: ResponseLanguage;
+  language: string;
 
   @ApiProperty({
     description: 'Timestamp of the response',
@@ -198,8 +727,254 @@ export class RagResponseDto {
     example: 'resp_abc123',
   })
   responseId: string;
+
+  @ApiPropertyOptional({
+    description: 'Conversation ID the answer belongs to',
+    example: 'conv_123',
+  })
+  conversationId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Follow-up question rewritten as a standalone query (used for search)',
+    example: 'What is the recommended dosage of metformin for longevity?',
+  })
+  standaloneQuestion?: string;
+
+  @ApiPropertyOptional({
+    description: 'Detected language of the question',
+    example: 'ru',
+  })
+  queryLanguage?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Question translated into the corpus language for retrieval; the answer stays in the question language',
+    example: 'What is zone 2 training?',
+  })
+  translatedQuery?: string;
+
+  @ApiPropertyOptional({
+    description: 'LLM model that generated the answer',
+    example: 'gpt-4',
+  })
+  model?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Prompt template version used for the answer ("builtin" without a registry template)',
+    example: 'detailed/ru@v3',
+  })
+  promptVersion?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Structured answer when format is "json"; `answer` then holds its summary',
+    type: StructuredAnswerDto,
+  })
+  structured?: StructuredAnswerDto;
+
+  @ApiPropertyOptional({
+    description: 'True if the answer was served from the semantic answer cache',
+    example: false,
+  })
+  cached?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Earlier question whose cached answer was reused',
+    example: 'What is zone 2 training?',
+  })
+  cachedQuestion?: string;
+
+  @ApiPropertyOptional({
+    description: 'Medical safety triage of the question and answer',
+    type: GuardrailDecisionDto,
+  })
+  guardrail?: GuardrailDecisionDto;
+
+  @ApiPropertyOptional({
+    description:
+      'True if instructions embedded in the question or context were neutralized before prompting',
+    example: false,
+  })
+  injectionNeutralized?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Neutralized prompt injection attempts',
+    type: [InjectionFindingDto],
+  })
+  injectionFindings?: InjectionFindingDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Follow-up questions drawn from the context, each checked to have matching content in the knowledge base',
+    type: [String],
+    example: ['How does zone 2 training affect mitochondria?'],
+  })
+  suggestedQuestions?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Tool calls made in research mode, in order, for debugging',
+    type: [ResearchStepDto],
+  })
+  researchTrace?: ResearchStepDto[];
 }
 
+export class RagStreamContextEvent {
+  @ApiProperty({
+    description: 'Unique response ID for tracking',
+    example: 'rag_1692360000000_abc123def',
+  })
+  responseId: string;
+
+  @ApiProperty({
+    description: 'Context chunks used to generate the answer',
+    type: [ContextChunk],
+  })
+  context: ContextChunk[];
+
+  @ApiProperty({
+    description: 'Number of context chunks found',
+    example: 5,
+  })
+  contextCount: number;
+
+  @ApiProperty({
+    description: 'List of source documents referenced',
+    example: ['#250 ‒ Training principles for longevity.pdf'],
+  })
+  sources: string[];
+
+  @ApiProperty({
+    description: 'Time taken to search for context (ms)',
+    example: 150,
+  })
+  searchTime: number;
+
+  @ApiPropertyOptional({
+    description: 'Conversation ID the answer belongs to',
+    example: 'conv_123',
+  })
+  conversationId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Follow-up question rewritten as a standalone query (used for search)',
+    example: 'What is the recommended dosage of metformin for longevity?',
+  })
+  standaloneQuestion?: string;
+}
+
+export class RagStreamTokenEvent {
+  @ApiProperty({
+    description:
+      'Next piece of the raw model output, including [n] source markers; replaced by the answer of the "done" event',
+    example: 'Zone 2 training',
+  })
+  delta: string;
+}
+
+export class RagStreamDoneEvent {
+  @ApiProperty({
+    description: 'Unique response ID for tracking',
+    example: 'rag_1692360000000_abc123def',
+  })
+  responseId: string;
+
+  @ApiProperty({
+    description:
+      'Final answer with inline source markers and stripped claims removed; clients should show it in place of the streamed deltas',
+    example: 'Zone 2 training improves mitochondrial function.',
+  })
+  answer: string;
+
+  @ApiProperty({
+    description: 'Answer sentences mapped to the chunk spans that support them',
+    type: [CitationDto],
+  })
+  citations: CitationDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Share of the answer supported by the retrieved context (0-1), absent when verification is disabled',
+    example: 0.9,
+  })
+  groundedness?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Per-claim support status, absent when verification is disabled',
+    type: [ClaimVerificationDto],
+  })
+  claims?: ClaimVerificationDto[];
+
+  @ApiProperty({
+    description:
+      'Provisional confidence score of the answer (0-1). The weights are hand-set and not yet fitted on evaluation data, so use it to rank answers rather than as a calibrated probability',
+    example: 0.92,
+  })
+  confidence: number;
+
+  @ApiProperty({
+    description: 'Time taken to search for context (ms)',
+    example: 150,
+  })
+  searchTime: number;
+
+  @ApiProperty({
+    description: 'Time taken to generate response (ms)',
+    example: 2500,
+  })
+  generationTime: number;
+
+  @ApiProperty({
+    description: 'Total processing time (ms)',
+    example: 2650,
+  })
+  totalTime: number;
+
+  @ApiPropertyOptional({
+    description: 'Prompt template version used for the answer',
+    example: 'detailed/ru@v3',
+  })
+  promptVersion?: string;
+
+  @ApiPropertyOptional({
+    description: 'Medical safety triage of the question and answer',
+    type: GuardrailDecisionDto,
+  })
+  guardrail?: GuardrailDecisionDto;
+
+  @ApiPropertyOptional({
+    description:
+      'True if instructions embedded in the question or context were neutralized before prompting',
+    example: false,
+  })
+  injectionNeutralized?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Why the answer fell back to extractive quotes instead of the requested mode',
+    enum: ExtractiveFallbackReason,
+  })
+  fallbackReason?: ExtractiveFallbackReason;
+
+  @ApiPropertyOptional({
+    description:
+      'Follow-up questions drawn from the context, each checked to have matching content in the knowledge base',
+    type: [String],
+  })
+  suggestedQuestions?: string[];
+}
+
+/**
+ * Server-Sent Event emitted by the streaming ask endpoint
+ */
+export type RagStreamEvent =
+  | { event: 'context'; data: RagStreamContextEvent }
+  | { event: 'token'; data: RagStreamTokenEvent }
+  | { event: 'done'; data: RagStreamDoneEvent };
+
 export class RagAnalyticsDto {
   @ApiProperty({
     description: 'Total number of RAG queries processed',
@@ -219,6 +994,15 @@ export class RagAnalyticsDto {
   })
   averageConfidence: number;
 
+  @ApiProperty({
+    description: 'Number of answers per confidence decile',
+    example: [
+      { min: 0.7, max: 0.8, count: 210 },
+      { min: 0.8, max: 0.9, count: 340 },
+    ],
+  })
+  confidenceHistogram: Array<{ min: number; max: number; count: number }>;
+
   @ApiProperty({
     description: 'Most popular response modes',
     example: [
@@ -229,6 +1013,29 @@ export class RagAnalyticsDto {
   })
   responseModeStats: Array<{ mode: string; count: number }>;
 
+  @ApiProperty({
+    description: 'Answers and average confidence per prompt template version',
+    example: [
+      { version: 'detailed/*@v2', count: 410, averageConfidence: 0.81 },
+      { version: 'detailed/*@v3', count: 395, averageConfidence: 0.84 },
+    ],
+  })
+  promptVersionStats: Array<{
+    version: string;
+    count: number;
+    averageConfidence: number;
+  }>;
+
+  @ApiProperty({
+    description:
+      'Questions per guardrail category and action (questions without a safety category are left out)',
+    example: [
+      { category: 'prescription_dosing', action: 'disclaimer', count: 42 },
+      { category: 'emergency', action: 'redirect', count: 3 },
+    ],
+  })
+  guardrailStats: Array<{ category: string; action: string; count: number }>;
+
   @ApiProperty({
     description: 'Most frequently referenced documents',
     example: [
@@ -243,4 +1050,66 @@ export class RagAnalyticsDto {
     example: ['zone 2 training', 'longevity interventions', 'protein intake'],
   })
   recentTopics: string[];
+
+  @ApiProperty({
+    description: 'Rated answers and the share rated helpful',
+    example: { ratings: 120, satisfactionRate: 0.78 },
+  })
+  feedback: { ratings: number; satisfactionRate: number };
+
+  @ApiProperty({
+    description: 'Answer ratings per response mode',
+    example: [
+      { mode: 'detailed', ratings: 80, positive: 64, satisfactionRate: 0.8 },
+      { mode: 'concise', ratings: 40, positive: 28, satisfactionRate: 0.7 },
+    ],
+  })
+  satisfactionByMode: Array<{
+    mode: string;
+    ratings: number;
+    positive: number;
+    satisfactionRate: number;
+  }>;
+
+  @ApiProperty({
+    description: 'Answer ratings per source document the answer was based on',
+    example: [
+      {
+        filename: '#250 ‒ Training principles for longevity.pdf',
+        ratings: 18,
+        positive: 15,
+        satisfactionRate: 0.83,
+      },
+    ],
+  })
+  satisfactionByDocument: Array<{
+    filename: string;
+    ratings: number;
+    positive: number;
+    satisfactionRate: number;
+  }>;
+
+  @ApiProperty({
+    description: 'Answer ratings per prompt template version',
+    example: [
+      {
+        version: 'detailed/*@v2',
+        ratings: 50,
+        positive: 37,
+        satisfactionRate: 0.74,
+      },
+      {
+        version: 'detailed/*@v3',
+        ratings: 45,
+        positive: 38,
+        satisfactionRate: 0.84,
+      },
+    ],
+  })
+  satisfactionByPromptVersion: Array<{
+    version: string;
+    ratings: number;
+    positive: number;
+    satisfactionRate: number;
+  }>;
 }
@@ -1,6 +1,19 @@
-import { IsString, IsOptional, IsInt, Min, Max } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsEnum,
+  IsBoolean,
+  Min,
+  Max,
+} from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
+export enum RetrievalMode {
+  SINGLE = 'single',
+  MULTI_QUERY = 'multi_query',
+}
+
 export class SearchDocumentsDto {
   @ApiProperty({
     description: 'Search query text',
@@ -33,6 +46,49 @@ export class SearchDocumentsDto {
   @Min(0.0)
   @Max(1.0)
   threshold?: number = 0.7;
+
+  @ApiPropertyOptional({
+    description:
+      'Retrieval strategy: embed only the query, or also LLM-generated paraphrases of it and fuse the results',
+    enum: RetrievalMode,
+    default: RetrievalMode.SINGLE,
+  })
+  @IsOptional()
+  @IsEnum(RetrievalMode)
+  retrievalMode?: RetrievalMode = RetrievalMode.SINGLE;
+
+  @ApiPropertyOptional({
+    description: 'Number of paraphrases to generate in multi-query mode',
+    example: 3,
+    minimum: 1,
+    maximum: 5,
+    default: 3,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  queryVariants?: number = 3;
+
+  @ApiPropertyOptional({
+    description:
+      'Also embed a hypothetical answer passage (HyDE) in multi-query mode',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  hyde?: boolean = false;
+
+  @ApiPropertyOptional({
+    description:
+      'Translate queries that are not in the corpus language (see CORPUS_LANGUAGE) before embedding',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  translateQuery?: boolean = true;
 }
 
 export class SearchResultDto {
@@ -71,6 +127,18 @@ export class SearchResultDto {
     example: 'chunk_456',
   })
   chunkId: string;
+
+  @ApiProperty({
+    description: 'Start offset of the chunk within the document text',
+    example: 12800,
+  })
+  startPosition: number;
+
+  @ApiProperty({
+    description: 'End offset of the chunk within the document text',
+    example: 13750,
+  })
+  endPosition: number;
 }
 
 export class SearchResponseDto {
@@ -97,4 +165,26 @@ export class SearchResponseDto {
     example: 'What are the benefits of zone 2 training?',
   })
   query: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Additional queries (paraphrases, hypothetical answer) used in multi-query mode',
+    example: [
+      'What is zone 2 cardio training and what are its health benefits?',
+    ],
+  })
+  expandedQueries?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Detected language of the query',
+    example: 'ru',
+  })
+  queryLanguage?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Query translated into the corpus language and used for retrieval',
+    example: 'What is zone 2 training?',
+  })
+  translatedQuery?: string;
 }
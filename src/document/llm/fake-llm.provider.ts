@@ -0,0 +1,98 @@
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmUsage,
+} from './llm-provider.interface';
+import { estimateTokens } from '../utils/text.utils';
+
+/**
+ * Deterministic offline LLM provider for tests and CI.
+ *
+ * Returns queued canned responses first; otherwise derives the answer from the
+ * prompt itself (echoes follow-up questions, quotes the first sentence of each
+ * context source) so the pipeline produces stable output without network access.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = 'fake';
+  readonly model = 'fake-llm';
+  readonly fastModel = 'fake-llm';
+
+  private readonly responses: string[];
+
+  constructor(responses: string[] = []) {
+    this.responses = [...responses];
+  }
+
+  /**
+   * Queue a canned response returned by the next call
+   */
+  enqueueResponse(response: string): void {
+    this.responses.push(response);
+  }
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const content = this.respond(request);
+    return Promise.resolve({
+      content,
+      model: this.model,
+      usage: this.estimateUsage(request, content),
+    });
+  }
+
+  async *stream(request: LlmCompletionRequest): AsyncIterable<string> {
+    const content = this.respond(request);
+    for (const word of content.split(/(?<=\s)/)) {
+      yield await Promise.resolve(word);
+    }
+    request.onUsage?.(this.estimateUsage(request, content), this.model);
+  }
+
+  private estimateUsage(
+    request: LlmCompletionRequest,
+    content: string,
+  ): LlmUsage {
+    return {
+      promptTokens: request.messages.reduce(
+        (sum, message) => sum + estimateTokens(message.content),
+        0,
+      ),
+      completionTokens: estimateTokens(content),
+    };
+  }
+
+  private respond(request: LlmCompletionRequest): string {
+    const canned = this.responses.shift();
+    if (canned !== undefined) {
+      return canned;
+    }
+
+    const lastUserMessage =
+      [...request.messages].reverse().find((m) => m.role === 'user')?.content ||
+      '';
+
+    const followUp = lastUserMessage.match(/Follow-up question:\s*(.+)/);
+    if (followUp) {
+      return followUp[1].trim();
+    }
+
+    const sourceSentences = lastUserMessage
+      .split(/\[Source \d+[^\]]*\]\n/)
+      .slice(1)
+      .map(
+        (block) =>
+          block
+            .replace(/<\/?source[^>]*>/g, '')
+            .trim()
+            .split(/(?<=[.!?])\s/)[0],
+      )
+      .filter((sentence) => sentence.length > 0)
+      .slice(0, 3);
+
+    if (sourceSentences.length > 0) {
+      return sourceSentences.join(' ');
+    }
+
+    return 'This is a deterministic response from the fake LLM provider.';
+  }
+}
@@ -0,0 +1,80 @@
+import { Logger, Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LLM_PROVIDER, LlmProvider } from './llm-provider.interface';
+import { OpenAiLlmProvider } from './openai-llm.provider';
+import { LocalLlmProvider } from './local-llm.provider';
+import { FakeLlmProvider } from './fake-llm.provider';
+import { MeteredLlmProvider } from './metered-llm.provider';
+import { readResilienceOptions } from './resilient-openai.client';
+import { UsageService } from '../../usage/usage.service';
+
+/**
+ * Create the LLM provider selected by LLM_PROVIDER (openai | local | fake), metered
+ * when a usage service is given
+ */
+export function createLlmProvider(
+  configService: ConfigService,
+  usageService?: UsageService,
+): LlmProvider {
+  const logger = new Logger('LlmProvider');
+  const providerName = configService.get<string>('LLM_PROVIDER') || 'openai';
+  const model = configService.get<string>('LLM_MODEL');
+  const fastModel = configService.get<string>('LLM_FAST_MODEL');
+
+  let provider: LlmProvider;
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = configService.get<string>('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is required');
+      }
+
+      provider = new OpenAiLlmProvider({
+        apiKey,
+        model: model || 'gpt-4',
+        fastModel: fastModel || 'gpt-3.5-turbo',
+        resilience: readResilienceOptions(configService),
+      });
+      break;
+    }
+    case 'local': {
+      const baseURL = configService.get<string>('LLM_BASE_URL');
+      if (!baseURL) {
+        throw new Error('LLM_BASE_URL environment variable is required');
+      }
+
+      provider = new LocalLlmProvider({
+        baseURL,
+        apiKey: configService.get<string>('LLM_API_KEY'),
+        model: model || 'llama3.1',
+        fastModel: fastModel || model || 'llama3.1',
+        // Local models on modest hardware can take minutes for a long answer
+        resilience: readResilienceOptions(configService, {
+          timeoutMs:
+            parseInt(configService.get<string>('LLM_TIMEOUT_MS') || '', 10) ||
+            120000,
+        }),
+      });
+      break;
+    }
+    case 'fake':
+      provider = new FakeLlmProvider();
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${providerName}`);
+  }
+
+  logger.log(
+    `Using ${provider.name} LLM provider (model: ${provider.model}, fast model: ${provider.fastModel})`,
+  );
+  return usageService
+    ? new MeteredLlmProvider(provider, usageService)
+    : provider;
+}
+
+export const llmProvider: Provider = {
+  provide: LLM_PROVIDER,
+  useFactory: createLlmProvider,
+  inject: [ConfigService, UsageService],
+};
@@ -0,0 +1,76 @@
+/**
+ * Injection token for the configured LLM provider
+ */
+export const LLM_PROVIDER = 'LLM_PROVIDER';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Tools the assistant asked to call */
+  toolCalls?: LlmToolCall[];
+  /** For tool messages: the call this is the result of */
+  toolCallId?: string;
+}
+
+/**
+ * A function the model may call instead of answering
+ */
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema of the arguments object */
+  parameters: Record<string, unknown>;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  /** Arguments as a JSON string, exactly as produced by the model */
+  arguments: string;
+}
+
+/**
+ * Which configured model to use: the main answer model or a cheaper one for auxiliary tasks
+ */
+export type LlmModelTier = 'default' | 'fast';
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tier?: LlmModelTier;
+  /**
+   * Ask the model for a single JSON object instead of free text. Models without a JSON
+   * mode only get the request through the prompt, so the output must still be validated.
+   */
+  responseFormat?: 'text' | 'json';
+  /** Tools the model may call; calls come back in LlmCompletion.toolCalls */
+  tools?: LlmToolDefinition[];
+  /** 'none' makes the model answer even though tools were offered and used before */
+  toolChoice?: 'auto' | 'none';
+  /** Called once a stream finishes, with the token usage reported by the API */
+  onUsage?: (usage: LlmUsage, model: string) => void;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string;
+  usage?: LlmUsage;
+  /** Set when the model called tools instead of (or besides) answering */
+  toolCalls?: LlmToolCall[];
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly fastModel: string;
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+
+  stream(request: LlmCompletionRequest): AsyncIterable<string>;
+}
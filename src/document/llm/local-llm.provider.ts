@@ -0,0 +1,28 @@
+import { OpenAiLlmProvider } from './openai-llm.provider';
+import { ResilienceOptions } from './resilient-openai.client';
+
+export interface LocalLlmProviderOptions {
+  baseURL: string;
+  apiKey?: string;
+  model: string;
+  fastModel: string;
+  resilience: ResilienceOptions;
+}
+
+/**
+ * LLM provider for OpenAI-compatible local servers (Ollama, llama.cpp server, vLLM)
+ */
+export class LocalLlmProvider extends OpenAiLlmProvider {
+  readonly name: string = 'local';
+
+  constructor(options: LocalLlmProviderOptions) {
+    super({
+      // Local servers ignore the key, but the OpenAI client requires one
+      apiKey: options.apiKey || 'local',
+      baseURL: options.baseURL,
+      model: options.model,
+      fastModel: options.fastModel,
+      resilience: options.resilience,
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmUsage,
+} from './llm-provider.interface';
+import { UsageService } from '../../usage/usage.service';
+import { UsageOperation } from '../../usage/dto/usage.dto';
+
+/**
+ * Decorates a provider to record the token usage of every call
+ */
+export class MeteredLlmProvider implements LlmProvider {
+  constructor(
+    private readonly provider: LlmProvider,
+    private readonly usage: UsageService,
+  ) {}
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  get fastModel(): string {
+    return this.provider.fastModel;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const completion = await this.provider.complete(request);
+    if (completion.usage) {
+      await this.record(request, completion.usage, completion.model);
+    }
+    return completion;
+  }
+
+  async *stream(request: LlmCompletionRequest): AsyncIterable<string> {
+    let reported: { usage: LlmUsage; model: string } | undefined;
+
+    yield* this.provider.stream({
+      ...request,
+      onUsage: (usage, model) => {
+        reported = { usage, model };
+        request.onUsage?.(usage, model);
+      },
+    });
+
+    if (reported) {
+      await this.record(request, reported.usage, reported.model);
+    }
+  }
+
+  private record(
+    request: LlmCompletionRequest,
+    usage: LlmUsage,
+    model: string,
+  ): Promise<void> {
+    return this.usage.record({
+      operation:
+        request.tier === 'fast'
+          ? UsageOperation.CHAT_FAST
+          : UsageOperation.CHAT,
+      model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+    });
+  }
+}
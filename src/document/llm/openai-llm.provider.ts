@@ -0,0 +1,172 @@
+import OpenAI from 'openai';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmToolDefinition,
+} from './llm-provider.interface';
+import {
+  ResilienceOptions,
+  ResilientOpenAiClient,
+} from './resilient-openai.client';
+
+export interface OpenAiLlmProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+  model: string;
+  fastModel: string;
+  resilience: ResilienceOptions;
+}
+
+/**
+ * LLM provider backed by the OpenAI chat completions API
+ */
+export class OpenAiLlmProvider implements LlmProvider {
+  readonly name: string = 'openai';
+  readonly model: string;
+  readonly fastModel: string;
+  protected readonly client: ResilientOpenAiClient;
+
+  constructor(options: OpenAiLlmProviderOptions) {
+    this.model = options.model;
+    this.fastModel = options.fastModel;
+    this.client = new ResilientOpenAiClient(
+      this.name,
+      { apiKey: options.apiKey, baseURL: options.baseURL },
+      options.resilience,
+    );
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const model = this.resolveModel(request);
+    const response = await this.client.execute('completion', (openai) =>
+      openai.chat.completions.create({
+        model,
+        messages: this.toOpenAiMessages(request.messages),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        tools: request.tools && this.toOpenAiTools(request.tools),
+        tool_choice: request.tools ? request.toolChoice : undefined,
+        response_format:
+          request.responseFormat === 'json' && this.supportsJsonMode(model)
+            ? { type: 'json_object' }
+            : undefined,
+      }),
+    );
+
+    if (!response.choices || response.choices.length === 0) {
+      throw new Error(`No response generated from ${this.name}`);
+    }
+
+    // Only function tools are offered, so other call types cannot occur
+    const toolCalls = (response.choices[0].message?.tool_calls || []).flatMap(
+      (call) =>
+        call.type === 'function'
+          ? [
+              {
+                id: call.id,
+                name: call.function.name,
+                arguments: call.function.arguments,
+              },
+            ]
+          : [],
+    );
+
+    return {
+      content: response.choices[0].message?.content || '',
+      model: response.model || model,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  async *stream(request: LlmCompletionRequest): AsyncIterable<string> {
+    const model = this.resolveModel(request);
+    const stream = await this.client.execute('stream', (openai) =>
+      openai.chat.completions.create({
+        model,
+        messages: this.toOpenAiMessages(request.messages),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+        // Usage arrives in a final chunk without choices
+        stream_options: { include_usage: true },
+      }),
+    );
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+      if (chunk.usage) {
+        request.onUsage?.(
+          {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+          },
+          chunk.model || model,
+        );
+      }
+    }
+  }
+
+  protected resolveModel(request: LlmCompletionRequest): string {
+    return request.tier === 'fast' ? this.fastModel : this.model;
+  }
+
+  /**
+   * JSON mode is rejected by the original gpt-4 and gpt-3.5-turbo snapshots; their
+   * JSON output relies on the prompt instructions alone
+   */
+  protected supportsJsonMode(model: string): boolean {
+    return !/^gpt-4(?:-32k)?(?:-0314|-0613)?$|^gpt-3\.5-turbo(?:-16k)?-(?:0301|0613)$/.test(
+      model,
+    );
+  }
+
+  private toOpenAiMessages(
+    messages: LlmMessage[],
+  ): OpenAI.ChatCompletionMessageParam[] {
+    return messages.map((message): OpenAI.ChatCompletionMessageParam => {
+      if (message.role === 'tool') {
+        return {
+          role: 'tool',
+          tool_call_id: message.toolCallId || '',
+          content: message.content,
+        };
+      }
+      if (message.role === 'assistant' && message.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls.map((call) => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        };
+      }
+      return { role: message.role, content: message.content };
+    });
+  }
+
+  private toOpenAiTools(
+    tools: LlmToolDefinition[],
+  ): OpenAI.ChatCompletionTool[] {
+    return tools.map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+}
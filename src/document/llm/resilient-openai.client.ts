@@ -0,0 +1,241 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+
+export interface ResilienceOptions {
+  /** Retries after the first attempt for rate limits, 5xx, timeouts and connection errors */
+  maxRetries: number;
+  /** Per-attempt timeout */
+  timeoutMs: number;
+  /** First backoff delay, doubled on every retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Longer Retry-After waits are not worth blocking a request for; the call fails instead */
+  maxRetryAfterMs: number;
+  /** Consecutive failed calls that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial call is let through */
+  resetTimeoutMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Thrown without calling the API while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly service: string,
+    readonly retryAfterMs: number,
+  ) {
+    super(
+      `${service} is temporarily unavailable, retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Resilience settings from OPENAI_MAX_RETRIES, OPENAI_TIMEOUT_MS,
+ * OPENAI_CIRCUIT_FAILURE_THRESHOLD and OPENAI_CIRCUIT_RESET_MS
+ */
+export function readResilienceOptions(
+  configService: ConfigService,
+  overrides: Partial<ResilienceOptions> = {},
+): ResilienceOptions {
+  const read = (key: string, fallback: number) => {
+    const value = parseInt(configService.get<string>(key) || '', 10);
+    return isNaN(value) || value < 0 ? fallback : value;
+  };
+
+  return {
+    maxRetries: read('OPENAI_MAX_RETRIES', 3),
+    timeoutMs: read('OPENAI_TIMEOUT_MS', 30000),
+    baseDelayMs: 500,
+    maxDelayMs: 20000,
+    maxRetryAfterMs: 60000,
+    failureThreshold: Math.max(read('OPENAI_CIRCUIT_FAILURE_THRESHOLD', 5), 1),
+    resetTimeoutMs: read('OPENAI_CIRCUIT_RESET_MS', 30000),
+    ...overrides,
+  };
+}
+
+/**
+ * OpenAI client wrapper used for embeddings and chat: retries rate limits and transient
+ * failures with exponential backoff and jitter (honoring Retry-After), times out
+ * each attempt, and opens a circuit breaker after repeated failed calls so callers
+ * fail fast until the API recovers.
+ */
+export class ResilientOpenAiClient {
+  private readonly logger = new Logger(ResilientOpenAiClient.name);
+  private readonly client: OpenAI;
+
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(
+    readonly name: string,
+    clientOptions: { apiKey: string; baseURL?: string },
+    private readonly options: ResilienceOptions,
+  ) {
+    // Retries are done here, so the breaker sees the outcome of the whole call
+    this.client = new OpenAI({
+      ...clientOptions,
+      maxRetries: 0,
+      timeout: options.timeoutMs,
+    });
+  }
+
+  get circuitState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Run an API call with retries behind the circuit breaker. For streams only
+   * opening the stream is retried; a failure mid-stream is passed to the caller.
+   */
+  async execute<T>(
+    operation: string,
+    call: (client: OpenAI) => Promise<T>,
+  ): Promise<T> {
+    this.acquire();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await call(this.client);
+        this.onSuccess();
+        return result;
+      } catch (error: any) {
+        if (!this.isRetryable(error)) {
+          // The API answered, so it is up even if it rejected this request
+          this.onSuccess();
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(error, attempt);
+        if (attempt >= this.options.maxRetries || delay === null) {
+          this.onFailure(operation, error);
+          throw error;
+        }
+
+        this.logger.warn(
+          `${this.name} ${operation} failed (${error.message}), retrying in ${delay}ms (${attempt + 1}/${this.options.maxRetries})`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private acquire(): void {
+    if (this.state === 'closed') {
+      return;
+    }
+
+    const retryAfterMs =
+      this.openedAt + this.options.resetTimeoutMs - Date.now();
+    if (this.state === 'open' && retryAfterMs <= 0) {
+      // Let one trial call through; its outcome closes or reopens the circuit
+      this.state = 'half_open';
+      this.logger.log(`${this.name} circuit half-open, trying a call`);
+      return;
+    }
+
+    throw new CircuitOpenError(
+      this.name,
+      Math.max(retryAfterMs, this.options.baseDelayMs),
+    );
+  }
+
+  private onSuccess(): void {
+    if (this.state !== 'closed') {
+      this.logger.log(`${this.name} circuit closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  private onFailure(operation: string, error: any): void {
+    this.consecutiveFailures++;
+    this.logger.error(
+      `${this.name} ${operation} failed after retries: ${error.message}`,
+    );
+
+    if (
+      this.state === 'half_open' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.logger.error(
+        `${this.name} circuit open for ${this.options.resetTimeoutMs}ms after ${this.consecutiveFailures} failed calls`,
+      );
+    }
+  }
+
+  private isRetryable(error: any): boolean {
+    if (error instanceof OpenAI.APIUserAbortError) {
+      return false;
+    }
+    // Includes timeouts
+    if (error instanceof OpenAI.APIConnectionError) {
+      return true;
+    }
+    if (error instanceof OpenAI.APIError) {
+      if (error.status === 429) {
+        // An exhausted quota does not recover by waiting
+        return error.code !== 'insufficient_quota';
+      }
+      return (
+        error.status === 408 ||
+        error.status === 409 ||
+        (error.status !== undefined && error.status >= 500)
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Retry-After when the API sends one, otherwise exponential backoff with jitter;
+   * null when the API asks to wait longer than maxRetryAfterMs
+   */
+  private getRetryDelay(error: any, attempt: number): number | null {
+    const retryAfter = this.parseRetryAfter(error);
+    if (retryAfter !== null) {
+      return retryAfter > this.options.maxRetryAfterMs ? null : retryAfter;
+    }
+
+    const backoff = Math.min(
+      this.options.baseDelayMs * 2 ** attempt,
+      this.options.maxDelayMs,
+    );
+    // Equal jitter: keep half the backoff, randomize the rest
+    return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+  }
+
+  private parseRetryAfter(error: any): number | null {
+    const headers: Headers | undefined =
+      error instanceof OpenAI.APIError ? error.headers : undefined;
+    if (!headers) {
+      return null;
+    }
+
+    const retryAfterMs = parseFloat(headers.get('retry-after-ms') || '');
+    if (!isNaN(retryAfterMs)) {
+      return Math.max(Math.round(retryAfterMs), 0);
+    }
+
+    const retryAfter = headers.get('retry-after');
+    if (!retryAfter) {
+      return null;
+    }
+
+    // Either delay-seconds or an HTTP date
+    const seconds = parseFloat(retryAfter);
+    if (!isNaN(seconds)) {
+      return Math.max(Math.round(seconds * 1000), 0);
+    }
+    const date = Date.parse(retryAfter);
+    return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+  }
+}
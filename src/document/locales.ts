@@ -0,0 +1,259 @@
+/** Answer in the language the question was asked in */
+export const AUTO_LANGUAGE = 'auto';
+
+export interface LocaleDefinition {
+  /** English name of the language, used in prompt instructions */
+  name: string;
+  /** System prompt lines asking for answers in this language */
+  instructions: string;
+  /** Reply when the knowledge base has nothing relevant to the question */
+  noContextMessage: string;
+  guardrails: GuardrailMessages;
+  extractive: ExtractiveMessages;
+  detection: LanguageDetection;
+  /** Phrases the model uses when it says the context does not answer the question */
+  insufficientContextPatterns: RegExp[];
+}
+
+export interface LanguageDetection {
+  /** ISO 15924 script code, as in \p{Script=...} */
+  script: string;
+  /** Letters that only this language uses among the locales of its script */
+  letters?: RegExp;
+  /** Frequent function words that tell it apart from the locales of its script */
+  words?: string[];
+}
+
+export interface ExtractiveMessages {
+  /** Heading of an answer in extractive mode */
+  intro: string;
+  /** Heading when the user's daily budget is spent */
+  budgetExceeded: string;
+  /** Heading when the LLM could not generate the answer */
+  generationFailed: string;
+}
+
+export interface GuardrailMessages {
+  /** Reply instead of an answer when the question describes a medical emergency */
+  emergency: string;
+  /** Reply instead of an answer when the question mentions suicide or self-harm */
+  selfHarm: string;
+  /** Reply instead of an answer to a request for a personal prescription drug dose */
+  dosingRefusal: string;
+  /** Appended to answers about prescription drugs, diagnoses or dosages */
+  disclaimer: string;
+  /** Appended when the answer states dosages the sources do not contain */
+  unsupportedDosage: string;
+}
+
+/**
+ * Locales with hand-written prompt instructions and messages. SUPPORTED_LOCALES may also
+ * list other ISO 639-1 codes; those get generic instructions and the default locale's messages.
+ */
+export const BUILTIN_LOCALES: Record<string, LocaleDefinition> = {
+  en: {
+    name: 'English',
+    instructions: `- Respond in English language`,
+    noContextMessage:
+      "I'm sorry, I couldn't find relevant information in Peter Attia's knowledge base to answer your question. Please try rephrasing your question or ask something more specific about health, longevity, nutrition, or exercise.",
+    guardrails: {
+      emergency:
+        'This sounds like it could be a medical emergency. Please call your local emergency number (112 in Europe, 911 in the US) or go to the nearest emergency room right away. This bot cannot help in an emergency.',
+      selfHarm:
+        "I'm really sorry you're going through this. You don't have to face it alone: please contact a crisis line in your country or your local emergency number (112 in Europe, 988 or 911 in the US), or reach out to someone you trust right now.",
+      dosingRefusal:
+        "I can't recommend a personal dose of a prescription medication. Please discuss dosing with the doctor who prescribes it; I can explain what Peter Attia has said about the drug in general.",
+      disclaimer:
+        'This information is for education only and is not medical advice. Talk to your doctor before starting, stopping or changing any medication, and for diagnosis of your symptoms.',
+      unsupportedDosage:
+        'Some dosages in this answer were not found in the sources. Do not rely on them without checking with your doctor.',
+    },
+    extractive: {
+      intro: 'Most relevant passages from the sources:',
+      budgetExceeded:
+        'You have reached your daily limit for generated answers, so here are the most relevant passages from the sources:',
+      generationFailed:
+        'The answer could not be generated right now, so here are the most relevant passages from the sources:',
+    },
+    detection: {
+      script: 'Latn',
+      words: [
+        'the',
+        'and',
+        'is',
+        'are',
+        'what',
+        'how',
+        'does',
+        'of',
+        'to',
+        'for',
+      ],
+    },
+    insufficientContextPatterns: [
+      /context (?:does not|doesn't|did not) (?:contain|provide|include|mention)/i,
+      /(?:not enough|insufficient|no (?:specific |relevant )?)information/i,
+      /(?:unable|not able) to (?:answer|find)/i,
+    ],
+  },
+  ru: {
+    name: 'Russian',
+    instructions: `- Respond in Russian language
+- Use appropriate medical and scientific terminology in Russian`,
+    noContextMessage:
+      'Извините, я не смог найти релевантную информацию в базе знаний Питера Аттиа для ответа на ваш вопрос. Попробуйте переформулировать вопрос или задать более конкретный вопрос о здоровье, долголетии, питании или тренировках.',
+    guardrails: {
+      emergency:
+        'Похоже, это может быть неотложное состояние. Пожалуйста, немедленно позвоните в экстренную службу (112 или 103) или обратитесь в ближайшее приёмное отделение. Этот бот не может помочь в экстренной ситуации.',
+      selfHarm:
+        'Мне очень жаль, что вам сейчас так тяжело. Вы не обязаны справляться с этим в одиночку: пожалуйста, обратитесь на линию психологической помощи в вашей стране или позвоните в экстренную службу (112), либо свяжитесь с близким человеком прямо сейчас.',
+      dosingRefusal:
+        'Я не могу рекомендовать личную дозировку рецептурного препарата. Пожалуйста, обсудите дозировку с врачом, который его назначает; я могу рассказать, что Питер Аттиа говорил об этом препарате в целом.',
+      disclaimer:
+        'Эта информация носит образовательный характер и не является медицинской рекомендацией. Проконсультируйтесь с врачом, прежде чем начинать, прекращать или менять приём препаратов, и для диагностики симптомов.',
+      unsupportedDosage:
+        'Некоторые дозировки в этом ответе не найдены в источниках. Не полагайтесь на них без консультации с врачом.',
+    },
+    extractive: {
+      intro: 'Наиболее релевантные фрагменты из источников:',
+      budgetExceeded:
+        'Дневной лимит сгенерированных ответов исчерпан, поэтому вот наиболее релевантные фрагменты из источников:',
+      generationFailed:
+        'Сейчас не удалось сгенерировать ответ, поэтому вот наиболее релевантные фрагменты из источников:',
+    },
+    detection: { script: 'Cyrl' },
+    insufficientContextPatterns: [
+      /контекст(?:е)? не (?:содержит|содержится|предоставляет|упоминается)/i,
+      /(?:недостаточно|нет) (?:конкретной |релевантной )?информации/i,
+    ],
+  },
+  uk: {
+    name: 'Ukrainian',
+    instructions: `- Respond in Ukrainian language, not Russian
+- Use appropriate medical and scientific terminology in Ukrainian`,
+    noContextMessage:
+      'Вибачте, я не знайшов релевантної інформації в базі знань Пітера Аттіа, щоб відповісти на ваше запитання. Спробуйте переформулювати запитання або поставте конкретніше запитання про здоров’я, довголіття, харчування чи тренування.',
+    guardrails: {
+      emergency:
+        'Схоже, це може бути невідкладний стан. Будь ласка, негайно зателефонуйте до екстреної служби (112 або 103) або зверніться до найближчого приймального відділення. Цей бот не може допомогти в екстреній ситуації.',
+      selfHarm:
+        'Мені дуже шкода, що вам зараз так важко. Ви не мусите долати це наодинці: будь ласка, зверніться на лінію психологічної підтримки у вашій країні або зателефонуйте до екстреної служби (112), або зв’яжіться з близькою людиною просто зараз.',
+      dosingRefusal:
+        'Я не можу рекомендувати особисте дозування рецептурного препарату. Будь ласка, обговоріть дозування з лікарем, який його призначає; я можу розповісти, що Пітер Аттіа казав про цей препарат загалом.',
+      disclaimer:
+        'Ця інформація має освітній характер і не є медичною порадою. Порадьтеся з лікарем, перш ніж почати, припинити чи змінити прийом препаратів, а також для діагностики симптомів.',
+      unsupportedDosage:
+        'Деякі дозування в цій відповіді не знайдено в джерелах. Не покладайтеся на них без консультації з лікарем.',
+    },
+    extractive: {
+      intro: 'Найрелевантніші фрагменти з джерел:',
+      budgetExceeded:
+        'Денний ліміт згенерованих відповідей вичерпано, тож ось найрелевантніші фрагменти з джерел:',
+      generationFailed:
+        'Зараз не вдалося згенерувати відповідь, тож ось найрелевантніші фрагменти з джерел:',
+    },
+    detection: { script: 'Cyrl', letters: /[іїєґ]/i },
+    insufficientContextPatterns: [
+      /контекст(?:і)? не (?:містить|надає|згадує|згадується)/i,
+      /(?:недостатньо|немає|бракує) (?:конкретної |релевантної )?інформації/i,
+      /не (?:можу|вдається) (?:відповісти|знайти)/i,
+    ],
+  },
+  de: {
+    name: 'German',
+    instructions: `- Respond in German language
+- Use appropriate medical and scientific terminology in German`,
+    noContextMessage:
+      'Leider konnte ich in Peter Attias Wissensdatenbank keine relevanten Informationen zu Ihrer Frage finden. Bitte formulieren Sie die Frage um oder stellen Sie eine konkretere Frage zu Gesundheit, Langlebigkeit, Ernährung oder Training.',
+    guardrails: {
+      emergency:
+        'Das klingt nach einem möglichen medizinischen Notfall. Bitte rufen Sie sofort den Notruf (112) an oder suchen Sie die nächste Notaufnahme auf. Dieser Bot kann in einem Notfall nicht helfen.',
+      selfHarm:
+        'Es tut mir sehr leid, dass es Ihnen gerade so schlecht geht. Sie müssen das nicht allein durchstehen: Bitte wenden Sie sich an eine Krisenhotline in Ihrem Land (in Deutschland die Telefonseelsorge, 0800 111 0 111) oder den Notruf (112), oder sprechen Sie jetzt mit einer Person Ihres Vertrauens.',
+      dosingRefusal:
+        'Ich kann keine persönliche Dosierung eines verschreibungspflichtigen Medikaments empfehlen. Bitte besprechen Sie die Dosierung mit der Ärztin oder dem Arzt, die es verschreiben; ich kann erklären, was Peter Attia allgemein über das Medikament gesagt hat.',
+      disclaimer:
+        'Diese Informationen dienen nur der Aufklärung und sind keine medizinische Beratung. Sprechen Sie mit Ihrer Ärztin oder Ihrem Arzt, bevor Sie Medikamente beginnen, absetzen oder ändern, und zur Abklärung Ihrer Symptome.',
+      unsupportedDosage:
+        'Einige Dosierungen in dieser Antwort wurden in den Quellen nicht gefunden. Verlassen Sie sich nicht ohne ärztliche Rücksprache darauf.',
+    },
+    extractive: {
+      intro: 'Die relevantesten Passagen aus den Quellen:',
+      budgetExceeded:
+        'Ihr Tageslimit für generierte Antworten ist erreicht, daher hier die relevantesten Passagen aus den Quellen:',
+      generationFailed:
+        'Die Antwort konnte gerade nicht generiert werden, daher hier die relevantesten Passagen aus den Quellen:',
+    },
+    detection: {
+      script: 'Latn',
+      letters: /[äöüß]/i,
+      words: [
+        'der',
+        'die',
+        'das',
+        'und',
+        'ist',
+        'wie',
+        'nicht',
+        'ich',
+        'mit',
+        'für',
+      ],
+    },
+    insufficientContextPatterns: [
+      /(?:Kontext|Quellen?) (?:enthält|enthalten|liefert|liefern|nennt|nennen|erwähnt|erwähnen) (?:keine|nicht)/i,
+      /(?:nicht genügend|unzureichende|keine (?:konkreten |relevanten )?)Informationen/i,
+      /(?:kann|können) (?:ich |wir )?(?:die Frage |diese Frage )?nicht beantworten/i,
+    ],
+  },
+  es: {
+    name: 'Spanish',
+    instructions: `- Respond in Spanish language
+- Use appropriate medical and scientific terminology in Spanish`,
+    noContextMessage:
+      'Lo siento, no encontré información relevante en la base de conocimiento de Peter Attia para responder a tu pregunta. Intenta reformularla o haz una pregunta más concreta sobre salud, longevidad, nutrición o ejercicio.',
+    guardrails: {
+      emergency:
+        'Esto podría ser una emergencia médica. Llama de inmediato al número de emergencias local (112 en Europa, 911 en gran parte de América) o acude al servicio de urgencias más cercano. Este bot no puede ayudar en una emergencia.',
+      selfHarm:
+        'Siento mucho que estés pasando por esto. No tienes que enfrentarlo solo: contacta ahora con una línea de atención en crisis de tu país o con el número de emergencias (112 en Europa, 911 en gran parte de América), o habla con alguien de confianza.',
+      dosingRefusal:
+        'No puedo recomendar una dosis personal de un medicamento con receta. Consulta la dosis con el médico que te lo receta; puedo explicarte lo que Peter Attia ha dicho sobre el medicamento en general.',
+      disclaimer:
+        'Esta información es solo educativa y no constituye consejo médico. Consulta a tu médico antes de empezar, suspender o cambiar cualquier medicamento y para diagnosticar tus síntomas.',
+      unsupportedDosage:
+        'Algunas dosis de esta respuesta no aparecen en las fuentes. No te fíes de ellas sin consultarlo con tu médico.',
+    },
+    extractive: {
+      intro: 'Los fragmentos más relevantes de las fuentes:',
+      budgetExceeded:
+        'Has alcanzado tu límite diario de respuestas generadas, así que aquí tienes los fragmentos más relevantes de las fuentes:',
+      generationFailed:
+        'No se pudo generar la respuesta en este momento, así que aquí tienes los fragmentos más relevantes de las fuentes:',
+    },
+    detection: {
+      script: 'Latn',
+      letters: /[ñ¿¡]/i,
+      words: [
+        'el',
+        'los',
+        'las',
+        'que',
+        'es',
+        'cómo',
+        'qué',
+        'para',
+        'por',
+        'con',
+      ],
+    },
+    insufficientContextPatterns: [
+      /contexto no (?:contiene|proporciona|incluye|menciona)/i,
+      /(?:no hay|no tengo|no dispongo de) (?:suficiente |ninguna )?información/i,
+      /información (?:insuficiente|no disponible)/i,
+      /no (?:puedo|es posible) (?:responder|encontrar)/i,
+    ],
+  },
+};
+
+export const AUTO_LANGUAGE_INSTRUCTIONS = `- Detect the language of the question and respond in the same language`;
@@ -0,0 +1,73 @@
+import { ContextChunk } from '../dto/rag.dto';
+import { RerankScore, Reranker } from './reranker.interface';
+
+export interface CrossEncoderRerankerOptions {
+  url: string;
+  apiKey?: string;
+  model?: string;
+  /** Covers the whole request; on timeout retrieval keeps the vector order */
+  timeoutMs: number;
+}
+
+/**
+ * Cross-encoder served over HTTP with the Cohere/Jina style rerank API
+ * (also exposed by text-embeddings-inference and most self-hosted rerankers)
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name = 'cross-encoder';
+
+  constructor(private readonly options: CrossEncoderRerankerOptions) {}
+
+  async score(
+    query: string,
+    candidates: ContextChunk[],
+  ): Promise<RerankScore[]> {
+    try {
+      return await this.request(query, candidates);
+    } catch (error: any) {
+      if (error?.name === 'TimeoutError') {
+        throw new Error(
+          `Rerank request timed out after ${this.options.timeoutMs}ms`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async request(
+    query: string,
+    candidates: ContextChunk[],
+  ): Promise<RerankScore[]> {
+    const response = await fetch(this.options.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey
+          ? { Authorization: `Bearer ${this.options.apiKey}` }
+          : {}),
+      },
+      body: JSON.stringify({
+        model: this.options.model,
+        query,
+        documents: candidates.map((chunk) => chunk.content),
+        top_n: candidates.length,
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Rerank request failed: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const body = (await response.json()) as {
+      results?: Array<{ index: number; relevance_score: number }>;
+    };
+
+    return (body.results || []).map((result) => ({
+      index: result.index,
+      score: result.relevance_score,
+    }));
+  }
+}
@@ -0,0 +1,27 @@
+import { ContextChunk } from '../dto/rag.dto';
+import { lexicalOverlap, tokenize } from '../utils/text.utils';
+import { RerankScore, Reranker } from './reranker.interface';
+
+/**
+ * Local reranker without model calls: blends query word coverage with the
+ * vector similarity, so chunks that actually mention the query terms move up.
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical';
+
+  constructor(private readonly lexicalWeight = 0.6) {}
+
+  score(query: string, candidates: ContextChunk[]): Promise<RerankScore[]> {
+    const queryTokens = tokenize(query);
+
+    return Promise.resolve(
+      candidates.map((chunk, index) => ({
+        index,
+        score:
+          this.lexicalWeight *
+            lexicalOverlap(queryTokens, tokenize(chunk.content)) +
+          (1 - this.lexicalWeight) * chunk.similarity,
+      })),
+    );
+  }
+}
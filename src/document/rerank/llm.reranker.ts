@@ -0,0 +1,74 @@
+import { Logger } from '@nestjs/common';
+import { ContextChunk } from '../dto/rag.dto';
+import { LlmProvider } from '../llm/llm-provider.interface';
+import { RerankScore, Reranker } from './reranker.interface';
+
+/**
+ * Asks the fast LLM tier to grade each candidate passage for relevance (0-10)
+ */
+export class LlmReranker implements Reranker {
+  readonly name = 'llm';
+  readonly usesLlm = true;
+
+  private readonly logger = new Logger(LlmReranker.name);
+
+  // Passages are truncated to keep the grading prompt small
+  private readonly passageMaxChars = 600;
+
+  constructor(private readonly llm: LlmProvider) {}
+
+  async score(
+    query: string,
+    candidates: ContextChunk[],
+  ): Promise<RerankScore[]> {
+    const passages = candidates
+      .map(
+        (chunk, index) =>
+          `[${index + 1}] ${chunk.content.substring(0, this.passageMaxChars)}`,
+      )
+      .join('\n\n');
+
+    try {
+      const completion = await this.llm.complete({
+        tier: 'fast',
+        temperature: 0,
+        maxTokens: 15 * candidates.length + 50,
+        messages: [
+          {
+            role: 'system',
+            content: `You grade how well passages answer a question. Score each passage from 0 (irrelevant) to 10 (directly answers the question).
+Respond with a JSON array only: [{"passage": <passage number>, "score": <0-10>}]`,
+          },
+          {
+            role: 'user',
+            content: `Question: ${query}\n\nPassages:\n${passages}`,
+          },
+        ],
+      });
+
+      const json = completion.content.substring(
+        completion.content.indexOf('['),
+        completion.content.lastIndexOf(']') + 1,
+      );
+      const grades = JSON.parse(json) as Array<{
+        passage: number;
+        score: number;
+      }>;
+
+      return grades
+        .filter(
+          (grade) =>
+            grade.passage >= 1 &&
+            grade.passage <= candidates.length &&
+            typeof grade.score === 'number',
+        )
+        .map((grade) => ({
+          index: grade.passage - 1,
+          score: Math.min(Math.max(grade.score, 0), 10) / 10,
+        }));
+    } catch (error: any) {
+      this.logger.warn(`LLM reranking failed: ${error.message}`);
+      return [];
+    }
+  }
+}
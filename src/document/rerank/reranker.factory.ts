@@ -0,0 +1,64 @@
+import { Logger, Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LLM_PROVIDER, LlmProvider } from '../llm/llm-provider.interface';
+import { RERANKER, Reranker } from './reranker.interface';
+import { LexicalReranker } from './lexical.reranker';
+import { LlmReranker } from './llm.reranker';
+import { CrossEncoderReranker } from './cross-encoder.reranker';
+
+/**
+ * Create the reranker selected by RERANKER (lexical | llm | cross-encoder | none).
+ * Returns null when reranking is disabled, which is the default.
+ */
+export function createReranker(
+  configService: ConfigService,
+  llm: LlmProvider,
+): Reranker | null {
+  const logger = new Logger('Reranker');
+  const rerankerName = configService.get<string>('RERANKER') || 'none';
+
+  let reranker: Reranker | null;
+
+  switch (rerankerName) {
+    case 'none':
+      reranker = null;
+      break;
+    case 'lexical':
+      reranker = new LexicalReranker();
+      break;
+    case 'llm':
+      reranker = new LlmReranker(llm);
+      break;
+    case 'cross-encoder': {
+      const url = configService.get<string>('RERANKER_URL');
+      if (!url) {
+        throw new Error('RERANKER_URL environment variable is required');
+      }
+
+      reranker = new CrossEncoderReranker({
+        url,
+        apiKey: configService.get<string>('RERANKER_API_KEY'),
+        model: configService.get<string>('RERANKER_MODEL'),
+        timeoutMs:
+          parseInt(
+            configService.get<string>('RERANKER_TIMEOUT_MS') || '',
+            10,
+          ) || 5000,
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown RERANKER: ${rerankerName}`);
+  }
+
+  logger.log(
+    reranker ? `Using ${reranker.name} reranker` : 'Reranking disabled',
+  );
+  return reranker;
+}
+
+export const rerankerProvider: Provider = {
+  provide: RERANKER,
+  useFactory: createReranker,
+  inject: [ConfigService, LLM_PROVIDER],
+};
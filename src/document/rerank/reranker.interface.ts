@@ -0,0 +1,22 @@
+import { ContextChunk } from '../dto/rag.dto';
+
+export const RERANKER = 'RERANKER';
+
+export interface RerankScore {
+  /** Index of the candidate in the input list */
+  index: number;
+  score: number;
+}
+
+/**
+ * Reorders retrieved candidates by relevance to the query.
+ * Implementations return a score for every candidate they could judge;
+ * RagService sorts by it and trims to the requested number of chunks.
+ */
+export interface Reranker {
+  readonly name: string;
+  /** Whether scoring calls the chat model; extractive answers skip such rerankers */
+  readonly usesLlm?: boolean;
+
+  score(query: string, candidates: ContextChunk[]): Promise<RerankScore[]>;
+}
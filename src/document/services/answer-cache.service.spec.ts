@@ -0,0 +1,64 @@
+import { ConfigService } from '@nestjs/config';
+import { AnswerCacheService } from './answer-cache.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { RagResponseDto } from '../dto/rag.dto';
+
+describe('AnswerCacheService', () => {
+  let service: AnswerCacheService;
+  let executeRaw: jest.Mock;
+  let queryRaw: jest.Mock;
+
+  const key = { responseMode: 'detailed', language: 'en', variant: 'lexical' };
+  const response = {
+    answer: 'Zone 2 builds mitochondria.',
+    context: [{ documentId: 'doc_1' }, { documentId: 'doc_1' }],
+  } as unknown as RagResponseDto;
+
+  // Tagged template calls receive the SQL parts first, then the values
+  const sqlOf = (mock: jest.Mock) =>
+    (mock.mock.calls[0][0] as TemplateStringsArray).join('?');
+
+  beforeEach(() => {
+    executeRaw = jest.fn().mockResolvedValue(1);
+    queryRaw = jest.fn().mockResolvedValue([]);
+    service = new AnswerCacheService(
+      {
+        $executeRaw: executeRaw,
+        $queryRaw: queryRaw,
+      } as unknown as PrismaService,
+      new ConfigService({}),
+    );
+  });
+
+  describe('store', () => {
+    it('generates the id in the insert', async () => {
+      await service.store('What is zone 2?', [0.1, 0.2], key, response);
+
+      const sql = sqlOf(executeRaw);
+      expect(sql).toMatch(/INSERT INTO answer_cache \(id, /);
+      expect(sql).toContain('gen_random_uuid()::text');
+    });
+
+    it('stores the documents the answer was built from once', async () => {
+      await service.store('What is zone 2?', [0.1, 0.2], key, response);
+
+      expect(executeRaw.mock.calls[0]).toContainEqual(['doc_1']);
+    });
+
+    it('does not throw when the insert fails', async () => {
+      executeRaw.mockRejectedValue(new Error('null value in column "id"'));
+
+      await expect(
+        service.store('What is zone 2?', [0.1, 0.2], key, response),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('lookup', () => {
+    it('misses instead of failing when the query fails', async () => {
+      queryRaw.mockRejectedValue(new Error('connection refused'));
+
+      await expect(service.lookup([0.1, 0.2], key)).resolves.toBeNull();
+    });
+  });
+});
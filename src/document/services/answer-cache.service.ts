@@ -0,0 +1,161 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { RagResponseDto } from '../dto/rag.dto';
+
+export interface AnswerCacheKey {
+  responseMode: string;
+  language: string;
+  /** Other options that change the answer text (verification, claim policy) */
+  variant: string;
+}
+
+export interface CachedAnswer {
+  id: string;
+  question: string;
+  similarity: number;
+  response: RagResponseDto;
+}
+
+@Injectable()
+export class AnswerCacheService {
+  private readonly logger = new Logger(AnswerCacheService.name);
+
+  readonly enabled: boolean;
+  private readonly similarityThreshold: number;
+  private readonly ttlHours: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>('ANSWER_CACHE_ENABLED') !== 'false';
+    this.similarityThreshold = parseFloat(
+      this.configService.get<string>('ANSWER_CACHE_SIMILARITY') || '0.95',
+    );
+    this.ttlHours = parseFloat(
+      this.configService.get<string>('ANSWER_CACHE_TTL_HOURS') || '168',
+    );
+  }
+
+  /**
+   * Find a cached answer to a semantically equivalent question with the same key
+   */
+  async lookup(
+    questionEmbedding: number[],
+    key: AnswerCacheKey,
+  ): Promise<CachedAnswer | null> {
+    try {
+      const vectorString = `[${questionEmbedding.join(',')}]`;
+      const cutoff = new Date(Date.now() - this.ttlHours * 60 * 60 * 1000);
+
+      const rows = (await this.prisma.$queryRaw`
+        SELECT
+          id,
+          question,
+          response,
+          (1 - (embedding <=> ${vectorString}::vector)) as similarity
+        FROM answer_cache
+        WHERE response_mode = ${key.responseMode}
+          AND language = ${key.language}
+          AND variant = ${key.variant}
+          AND created_at >= ${cutoff}
+          AND embedding IS NOT NULL
+          AND (embedding <=> ${vectorString}::vector) <= ${1 - this.similarityThreshold}
+        ORDER BY embedding <=> ${vectorString}::vector
+        LIMIT 1
+      `) as Array<{
+        id: string;
+        question: string;
+        response: RagResponseDto;
+        similarity: number;
+      }>;
+
+      if (rows.length === 0) {
+        return null;
+      }
+
+      const hit = rows[0];
+      await this.prisma.answerCache.update({
+        where: { id: hit.id },
+        data: { hitCount: { increment: 1 }, lastHitAt: new Date() },
+      });
+
+      return {
+        id: hit.id,
+        question: hit.question,
+        similarity: Number(hit.similarity),
+        response: hit.response,
+      };
+    } catch (error: any) {
+      // A cache failure must never block answering
+      this.logger.warn(`Answer cache lookup failed: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Store a generated answer under its question embedding
+   */
+  async store(
+    question: string,
+    questionEmbedding: number[],
+    key: AnswerCacheKey,
+    response: RagResponseDto,
+  ): Promise<void> {
+    try {
+      const vectorString = `[${questionEmbedding.join(',')}]`;
+      const documentIds = Array.from(
+        new Set(response.context.map((chunk) => chunk.documentId)),
+      );
+
+      // cuid() is a client-side default, so raw inserts generate the id themselves
+      await this.prisma.$executeRaw`
+        INSERT INTO answer_cache (id, question, embedding, response_mode, language, variant, response, document_ids, created_at)
+        VALUES (
+          gen_random_uuid()::text,
+          ${question},
+          ${vectorString}::vector,
+          ${key.responseMode},
+          ${key.language},
+          ${key.variant},
+          ${JSON.stringify(response)}::jsonb,
+          ${documentIds}::text[],
+          NOW()
+        )
+      `;
+    } catch (error: any) {
+      this.logger.warn(`Failed to cache answer: ${error.message}`);
+    }
+  }
+
+  /**
+   * Drop cached answers built from the given documents
+   */
+  async invalidateDocuments(documentIds: string[]): Promise<number> {
+    if (documentIds.length === 0) {
+      return 0;
+    }
+
+    const removed = await this.prisma.$executeRaw`
+      DELETE FROM answer_cache WHERE document_ids && ${documentIds}::text[]
+    `;
+
+    if (removed > 0) {
+      this.logger.log(
+        `Invalidated ${removed} cached answers for ${documentIds.length} documents`,
+      );
+    }
+    return removed;
+  }
+
+  /**
+   * Drop all cached answers
+   */
+  async clear(): Promise<number> {
+    const { count } = await this.prisma.answerCache.deleteMany({});
+    this.logger.log(`Cleared ${count} cached answers`);
+    return count;
+  }
+}
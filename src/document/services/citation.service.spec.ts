@@ -0,0 +1,138 @@
+import { CitationService } from './citation.service';
+import { ContextChunk } from '../dto/rag.dto';
+
+describe('CitationService', () => {
+  let service: CitationService;
+
+  const chunk = (
+    id: string,
+    content: string,
+    startPosition = 0,
+  ): ContextChunk => ({
+    content,
+    similarity: 0.8,
+    documentFilename: `${id}.pdf`,
+    documentId: `doc_${id}`,
+    chunkId: `chunk_${id}`,
+    chunkIndex: 0,
+    startPosition,
+    endPosition: startPosition + content.length,
+  });
+
+  const context = [
+    chunk(
+      'zone2',
+      'Welcome back to the show. Zone 2 training improves mitochondrial function in muscle. We talked about lactate too.',
+      1000,
+    ),
+    chunk(
+      'rapamycin',
+      'Peter takes rapamycin once a week. The dose is 5 mg. He stops it before surgery.',
+      250,
+    ),
+  ];
+
+  beforeEach(() => {
+    service = new CitationService();
+  });
+
+  describe('extractCitations', () => {
+    it('removes the markers and maps each sentence to its source', () => {
+      const { answer, citations } = service.extractCitations(
+        'Zone 2 training improves mitochondrial function [1]. Peter takes rapamycin weekly [2].',
+        context,
+      );
+
+      expect(answer).toBe(
+        'Zone 2 training improves mitochondrial function. Peter takes rapamycin weekly.',
+      );
+      expect(citations.map((c) => [c.sentenceIndex, c.chunkId])).toEqual([
+        [0, 'chunk_zone2'],
+        [1, 'chunk_rapamycin'],
+      ]);
+    });
+
+    it('points answer offsets at the sentence in the answer without markers', () => {
+      const { answer, citations } = service.extractCitations(
+        'Zone 2 training improves mitochondrial function [1]. Peter takes rapamycin weekly [2].',
+        context,
+      );
+
+      for (const citation of citations) {
+        expect(answer.substring(citation.answerStart, citation.answerEnd)).toBe(
+          citation.sentence,
+        );
+      }
+      expect(citations[1].sentence).toBe('Peter takes rapamycin weekly.');
+    });
+
+    it('points chunk and document offsets at the supporting sentence', () => {
+      const { citations } = service.extractCitations(
+        'Zone 2 training improves mitochondrial function [1].',
+        context,
+      );
+
+      const [citation] = citations;
+      expect(
+        context[0].content.substring(citation.chunkStart, citation.chunkEnd),
+      ).toBe('Zone 2 training improves mitochondrial function in muscle.');
+      expect(citation.documentStart).toBe(1000 + citation.chunkStart);
+      expect(citation.documentEnd).toBe(1000 + citation.chunkEnd);
+      expect(citation.score).toBeGreaterThan(0.5);
+    });
+
+    it('moves markers written after the punctuation into the sentence', () => {
+      const { answer, citations } = service.extractCitations(
+        'Peter takes rapamycin once a week. [2] The dose is 5 mg. [2]',
+        context,
+      );
+
+      expect(answer).toBe(
+        'Peter takes rapamycin once a week. The dose is 5 mg.',
+      );
+      expect(citations.map((c) => c.sentenceIndex)).toEqual([0, 1]);
+      expect(citations[1].answerStart).toBe(answer.indexOf('The dose'));
+    });
+
+    it('cites every source listed in one marker', () => {
+      const { citations } = service.extractCitations(
+        'Both came up in the episode [1, 2].',
+        context,
+      );
+
+      expect(citations.map((c) => c.chunkId)).toEqual([
+        'chunk_zone2',
+        'chunk_rapamycin',
+      ]);
+    });
+
+    it('ignores source numbers outside the context', () => {
+      const { answer, citations } = service.extractCitations(
+        'Peter takes rapamycin weekly [7].',
+        context,
+      );
+
+      expect(answer).toBe('Peter takes rapamycin weekly.');
+      expect(citations).toEqual([]);
+    });
+
+    it('cites the best matching chunk for sentences without markers', () => {
+      const { citations } = service.extractCitations(
+        'Peter stops rapamycin before surgery. Nobody mentioned sauna bathing here.',
+        context,
+      );
+
+      expect(citations).toHaveLength(1);
+      expect(citations[0]).toMatchObject({
+        sentenceIndex: 0,
+        chunkId: 'chunk_rapamycin',
+      });
+      expect(
+        context[1].content.substring(
+          citations[0].chunkStart,
+          citations[0].chunkEnd,
+        ),
+      ).toBe('He stops it before surgery.');
+    });
+  });
+});
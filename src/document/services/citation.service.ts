@@ -0,0 +1,159 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CitationDto, ContextChunk } from '../dto/rag.dto';
+import {
+  TextSpan,
+  lexicalOverlap,
+  splitSentences,
+  tokenize,
+} from '../utils/text.utils';
+
+@Injectable()
+export class CitationService {
+  private readonly logger = new Logger(CitationService.name);
+
+  // Matches inline source markers such as [1], [1, 3] or [Source 2]
+  private readonly markerPattern =
+    /\s*\[(?:Source\s*)?(\d+(?:\s*,\s*\d+)*)\]/gi;
+
+  // Minimum share of sentence words found in a chunk to cite it without a marker
+  private readonly minLexicalSupport = 0.5;
+
+  /**
+   * Map answer sentences to the context chunk spans that support them.
+   * Returns the answer with inline source markers removed.
+   */
+  extractCitations(
+    rawAnswer: string,
+    context: ContextChunk[],
+  ): { answer: string; citations: CitationDto[] } {
+    // Markers written after the final punctuation belong to the preceding sentence
+    const normalized = rawAnswer.replace(
+      /([.!?])((?:\s*\[(?:Source\s*)?\d+(?:\s*,\s*\d+)*\])+)/gi,
+      '$2$1',
+    );
+    const answer = normalized.replace(this.markerPattern, '');
+
+    const citations: CitationDto[] = [];
+    let cursor = 0;
+
+    splitSentences(normalized).forEach((sentence, sentenceIndex) => {
+      const sourceNumbers = this.parseMarkers(sentence.text);
+      const cleanSentence = sentence.text
+        .replace(this.markerPattern, '')
+        .trim();
+      if (cleanSentence.length === 0) {
+        return;
+      }
+
+      const answerStart = answer.indexOf(cleanSentence, cursor);
+      if (answerStart >= 0) {
+        cursor = answerStart + cleanSentence.length;
+      }
+
+      const sentenceTokens = tokenize(cleanSentence);
+      const candidates =
+        sourceNumbers.length > 0
+          ? sourceNumbers
+              .map((n) => context[n - 1])
+              .filter((chunk) => chunk !== undefined)
+          : this.findLexicalSupport(sentenceTokens, context);
+
+      for (const chunk of candidates) {
+        const span = this.findSupportingSpan(sentenceTokens, chunk.content);
+        citations.push({
+          sentenceIndex,
+          sentence: cleanSentence,
+          answerStart,
+          answerEnd: answerStart >= 0 ? answerStart + cleanSentence.length : -1,
+          chunkId: chunk.chunkId,
+          documentId: chunk.documentId,
+          documentFilename: chunk.documentFilename,
+          chunkStart: span.start,
+          chunkEnd: span.end,
+          documentStart: chunk.startPosition + span.start,
+          documentEnd: chunk.startPosition + span.end,
+          score: span.score,
+        });
+      }
+    });
+
+    this.logger.debug(
+      `Mapped ${citations.length} citations for ${context.length} context chunks`,
+    );
+
+    return { answer, citations };
+  }
+
+  /**
+   * Instructions telling the LLM how to mark the sources it used
+   */
+  getCitationInstructions(): string {
+    return `- After each sentence that uses information from the context, add the number of the supporting source in square brackets, e.g. [1] or [1, 3]
+- Only use source numbers that appear in the context; do not cite sentences that are not based on the context`;
+  }
+
+  private parseMarkers(text: string): number[] {
+    const numbers = new Set<number>();
+    for (const match of text.matchAll(this.markerPattern)) {
+      match[1].split(',').forEach((n) => numbers.add(parseInt(n.trim(), 10)));
+    }
+    return Array.from(numbers);
+  }
+
+  /**
+   * Fallback for sentences without markers: the chunk with the highest word overlap
+   */
+  private findLexicalSupport(
+    sentenceTokens: string[],
+    context: ContextChunk[],
+  ): ContextChunk[] {
+    let best: ContextChunk | undefined;
+    let bestScore = 0;
+
+    for (const chunk of context) {
+      const score = lexicalOverlap(sentenceTokens, tokenize(chunk.content));
+      if (score > bestScore) {
+        best = chunk;
+        bestScore = score;
+      }
+    }
+
+    return best && bestScore >= this.minLexicalSupport ? [best] : [];
+  }
+
+  /**
+   * Find the chunk sentence (or pair of sentences) that best matches the answer sentence
+   */
+  private findSupportingSpan(
+    sentenceTokens: string[],
+    chunkContent: string,
+  ): { start: number; end: number; score: number } {
+    const chunkSentences = splitSentences(chunkContent);
+    let best: TextSpan & { score: number } = {
+      text: chunkContent,
+      start: 0,
+      end: chunkContent.length,
+      score: 0,
+    };
+
+    // Single sentences first, so a wider window only wins if it adds support
+    for (let width = 1; width <= 2; width++) {
+      for (let i = 0; i + width <= chunkSentences.length; i++) {
+        const first = chunkSentences[i];
+        const last = chunkSentences[i + width - 1];
+        const text = chunkContent.substring(first.start, last.end);
+        const score = lexicalOverlap(sentenceTokens, tokenize(text));
+
+        if (score > best.score) {
+          best = { text, start: first.start, end: last.end, score };
+        }
+      }
+    }
+
+    return {
+      start: best.start,
+      end: best.end,
+      score: Math.round(best.score * 100) / 100,
+    };
+  }
+}
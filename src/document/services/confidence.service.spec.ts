@@ -0,0 +1,27 @@
+import { ConfidenceService } from './confidence.service';
+
+describe('ConfidenceService', () => {
+  const service = new ConfidenceService();
+
+  describe('collectSignals', () => {
+    it.each([
+      ['en', "The context doesn't mention the dose of rapamycin."],
+      ['ru', 'В контексте нет информации о дозе рапамицина.'],
+      ['uk', 'Контекст не містить даних про дозу рапаміцину.'],
+      ['uk', 'Немає інформації про дозу рапаміцину.'],
+      ['de', 'Der Kontext enthält keine Angaben zur Dosis von Rapamycin.'],
+      ['de', 'Dazu kann ich die Frage nicht beantworten.'],
+      ['es', 'El contexto no menciona la dosis de rapamicina.'],
+      ['es', 'No hay información sobre la dosis de rapamicina.'],
+    ])('flags %s answers that say the context is insufficient', (_, answer) => {
+      expect(service.collectSignals([], answer).insufficientContext).toBe(true);
+    });
+
+    it('does not flag answers that use the context', () => {
+      expect(
+        service.collectSignals([], 'Peter takes 5 mg of rapamycin weekly.')
+          .insufficientContext,
+      ).toBe(false);
+    });
+  });
+});
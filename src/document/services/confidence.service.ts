@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { ContextChunk } from '../dto/rag.dto';
+import { BUILTIN_LOCALES } from '../locales';
+
+export interface ConfidenceSignals {
+  /** Best vector similarity, normalized to the useful similarity range (0-1) */
+  topSimilarity: number;
+  /** Lead of the best chunk over the runner-up, normalized (0-1) */
+  scoreGap: number;
+  /** Best reranker score, if reranking ran */
+  rerankScore?: number;
+  /** Share of answer claims supported by the context, if verification ran */
+  groundedness?: number;
+  /** The model said the context does not answer the question */
+  insufficientContext: boolean;
+}
+
+@Injectable()
+export class ConfidenceService {
+  // Cosine similarities of text-embedding-3-small rarely leave this range for relevant text
+  private readonly similarityFloor = 0.2;
+  private readonly similarityCeiling = 0.65;
+
+  // A top chunk this far ahead of the runner-up counts as a clear winner
+  private readonly decisiveGap = 0.15;
+
+  // Hand-set logistic weights, not yet fitted on the evaluation set, so the score is provisional.
+  // The raw signals are logged with every answer so they can be fitted later.
+  private readonly weights = {
+    bias: -4,
+    topSimilarity: 3,
+    scoreGap: 0.5,
+    rerankScore: 1.5,
+    groundedness: 3,
+    insufficientContext: -3,
+  };
+
+  // Phrases the model uses when following the "say so clearly" instruction
+  private readonly insufficientContextPatterns = Object.values(
+    BUILTIN_LOCALES,
+  ).flatMap((locale) => locale.insufficientContextPatterns);
+
+  /**
+   * Collect the signals the confidence score is computed from
+   */
+  collectSignals(
+    context: ContextChunk[],
+    answer: string,
+    groundedness?: number,
+  ): ConfidenceSignals {
+    const similarities = context
+      .map((chunk) => chunk.similarity)
+      .sort((a, b) => b - a);
+    const rerankScores = context
+      .map((chunk) => chunk.rerankScore)
+      .filter((score): score is number => score !== undefined);
+
+    const top = similarities[0] ?? 0;
+    const runnerUp = similarities[1] ?? this.similarityFloor;
+
+    return {
+      topSimilarity: this.clamp(
+        (top - this.similarityFloor) /
+          (this.similarityCeiling - this.similarityFloor),
+      ),
+      scoreGap: this.clamp((top - runnerUp) / this.decisiveGap),
+      rerankScore:
+        rerankScores.length > 0
+          ? this.clamp(Math.max(...rerankScores))
+          : undefined,
+      groundedness,
+      insufficientContext: this.insufficientContextPatterns.some((pattern) =>
+        pattern.test(answer),
+      ),
+    };
+  }
+
+  /**
+   * Probability-like confidence (0-1) from retrieval, reranking and grounding signals.
+   * Missing signals fall back to neutral values so they neither raise nor lower the score much.
+   */
+  calculateConfidence(signals: ConfidenceSignals): number {
+    const w = this.weights;
+    const z =
+      w.bias +
+      w.topSimilarity * signals.topSimilarity +
+      w.scoreGap * signals.scoreGap +
+      w.rerankScore * (signals.rerankScore ?? signals.topSimilarity) +
+      w.groundedness * (signals.groundedness ?? 0.5) +
+      (signals.insufficientContext ? w.insufficientContext : 0);
+
+    return Math.round((1 / (1 + Math.exp(-z))) * 100) / 100;
+  }
+
+  private clamp(value: number): number {
+    return Math.min(Math.max(value, 0), 1);
+  }
+}
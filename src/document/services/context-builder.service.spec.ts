@@ -0,0 +1,264 @@
+import { ContextBuilderService } from './context-builder.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ContextChunk } from '../dto/rag.dto';
+import { LlmMessage } from '../llm/llm-provider.interface';
+import { estimateTokens } from '../utils/text.utils';
+
+describe('ContextBuilderService', () => {
+  let service: ContextBuilderService;
+  let findMany: jest.Mock;
+
+  const chunk = (
+    documentId: string,
+    chunkIndex: number,
+    content: string,
+    startPosition: number,
+    similarity = 0.8,
+  ): ContextChunk => ({
+    content,
+    similarity,
+    documentFilename: `${documentId}.pdf`,
+    documentId,
+    chunkId: `${documentId}_${chunkIndex}`,
+    chunkIndex,
+    startPosition,
+    endPosition: startPosition + content.length,
+  });
+
+  // Consecutive chunks repeat the last sentence of the previous one
+  const chunk4 = chunk(
+    'doc_a',
+    4,
+    'Zone 2 is the highest output you can sustain. Lactate stays below two millimoles.',
+    1000,
+  );
+  const chunk5 = chunk(
+    'doc_a',
+    5,
+    'Lactate stays below two millimoles. Most people need three to four hours a week.',
+    1046,
+    0.9,
+  );
+  const chunk6 = chunk(
+    'doc_a',
+    6,
+    'Most people need three to four hours a week. Peter does four sessions.',
+    1082,
+  );
+  const other = chunk(
+    'doc_b',
+    2,
+    'Peter takes rapamycin once a week.',
+    300,
+    0.7,
+  );
+
+  const asRow = (c: ContextChunk) => ({
+    id: c.chunkId,
+    documentId: c.documentId,
+    content: c.content,
+    chunkIndex: c.chunkIndex,
+    startPosition: c.startPosition,
+    endPosition: c.endPosition,
+  });
+
+  beforeEach(() => {
+    findMany = jest.fn().mockResolvedValue([]);
+    service = new ContextBuilderService({
+      documentChunk: { findMany },
+    } as unknown as PrismaService);
+  });
+
+  describe('stitchNeighbors', () => {
+    it('returns unrelated chunks as they are without loading neighbors', async () => {
+      const chunks = [chunk4, other];
+
+      await expect(service.stitchNeighbors(chunks, 0)).resolves.toEqual(chunks);
+      expect(findMany).not.toHaveBeenCalled();
+    });
+
+    it('merges consecutive retrieved chunks and removes their overlap', async () => {
+      const [passage] = await service.stitchNeighbors([chunk5, chunk4], 0);
+
+      expect(passage).toEqual({
+        ...chunk5,
+        content:
+          'Zone 2 is the highest output you can sustain. Lactate stays below two millimoles. Most people need three to four hours a week.',
+        similarity: 0.9,
+        rerankScore: undefined,
+        startPosition: chunk4.startPosition,
+        endPosition: chunk5.endPosition,
+        mergedChunkIds: ['doc_a_4', 'doc_a_5'],
+      });
+    });
+
+    it('pulls in neighbors within the window', async () => {
+      findMany.mockResolvedValue([chunk4, chunk5, chunk6].map(asRow));
+
+      const [passage] = await service.stitchNeighbors([chunk5], 1);
+
+      expect(passage.content).toBe(
+        'Zone 2 is the highest output you can sustain. Lactate stays below two millimoles. Most people need three to four hours a week. Peter does four sessions.',
+      );
+      expect(passage.chunkId).toBe('doc_a_5');
+      expect(passage.mergedChunkIds).toEqual(['doc_a_4', 'doc_a_5', 'doc_a_6']);
+      expect(passage.startPosition).toBe(chunk4.startPosition);
+      expect(passage.endPosition).toBe(chunk6.endPosition);
+    });
+
+    it('joins neighbors that do not overlap with a space', async () => {
+      const chunk7 = chunk('doc_a', 7, 'He also tracks his heart rate.', 1153);
+      findMany.mockResolvedValue([asRow(chunk7)]);
+
+      const [passage] = await service.stitchNeighbors([chunk6], 1);
+
+      expect(passage.content).toBe(
+        'Most people need three to four hours a week. Peter does four sessions. He also tracks his heart rate.',
+      );
+    });
+
+    it('keeps the retrieval order of the passages', async () => {
+      findMany.mockResolvedValue([chunk4, chunk5, chunk6].map(asRow));
+
+      const passages = await service.stitchNeighbors([other, chunk5], 1);
+
+      expect(passages.map((p) => p.chunkId)).toEqual(['doc_b_2', 'doc_a_5']);
+    });
+  });
+
+  describe('fitHistory', () => {
+    const turns = ['first', 'second', 'third'].map((name) => ({
+      question: `The ${name} question?`,
+      answer: 'An answer. '.repeat(20),
+    }));
+    const toMessages = (turn: { question: string; answer: string }) => [
+      { role: 'user' as const, content: turn.question },
+      { role: 'assistant' as const, content: turn.answer },
+    ];
+    const turnTokens = () => service.countMessageTokens(toMessages(turns[0]));
+
+    it('keeps the most recent turns that fit', () => {
+      expect(
+        service.fitHistory(turns, turnTokens() * 2 + 1, toMessages),
+      ).toEqual(turns.slice(1));
+    });
+
+    it('keeps every turn within the budget', () => {
+      expect(service.fitHistory(turns, turnTokens() * 3, toMessages)).toEqual(
+        turns,
+      );
+      expect(service.fitHistory(turns, turnTokens() - 1, toMessages)).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe('packContext', () => {
+    const fixedMessages: LlmMessage[] = [
+      { role: 'system', content: 'Answer from the sources.' },
+      { role: 'user', content: 'How much zone 2 training?' },
+    ];
+    const format = (c: ContextChunk, index: number) =>
+      `[${index + 1}] ${c.content}`;
+    const long = chunk(
+      'doc_c',
+      0,
+      [
+        'The first sentence talks about how zone 2 training is defined in the lab.',
+        'The second sentence explains why lactate is measured with a finger prick.',
+        'The third sentence covers how long the sessions should be for beginners.',
+        'The fourth sentence is about combining zone 2 with a weekly VO2 max session.',
+      ].join(' '),
+      0,
+    );
+
+    it('counts the fixed messages against the budget', () => {
+      const fixedTokens = service.countMessageTokens(fixedMessages);
+      const cost = estimateTokens(format(other, 0));
+
+      expect(
+        service.packContext([other], fixedMessages, fixedTokens + cost, format),
+      ).toEqual({
+        context: [other],
+        tokens: fixedTokens + cost,
+        droppedCount: 0,
+      });
+      expect(
+        service.packContext(
+          [other, chunk4],
+          fixedMessages,
+          fixedTokens + cost,
+          format,
+        ).droppedCount,
+      ).toBe(1);
+    });
+
+    it('keeps the top chunk when the fixed messages use up the budget', () => {
+      const { context, droppedCount } = service.packContext(
+        [long, other],
+        fixedMessages,
+        service.countMessageTokens(fixedMessages),
+        format,
+      );
+
+      expect(context).toEqual([
+        {
+          ...long,
+          content: long.content.substring(
+            0,
+            long.content.indexOf(' The second'),
+          ),
+          endPosition: long.content.indexOf(' The second'),
+          truncated: true,
+        },
+      ]);
+      expect(droppedCount).toBe(1);
+    });
+
+    it('trims the first chunk that does not fit to whole sentences', () => {
+      const threeSentences = long.content
+        .substring(0, long.content.indexOf('The fourth'))
+        .trimEnd();
+      const budget =
+        service.countMessageTokens(fixedMessages) +
+        estimateTokens(format(other, 0)) +
+        estimateTokens(format({ ...long, content: threeSentences }, 1));
+
+      const { context, tokens, droppedCount } = service.packContext(
+        [other, long, chunk4],
+        fixedMessages,
+        budget,
+        format,
+      );
+
+      expect(context).toEqual([
+        other,
+        {
+          ...long,
+          content: threeSentences,
+          endPosition: long.startPosition + threeSentences.length,
+          truncated: true,
+        },
+      ]);
+      expect(tokens).toBe(budget);
+      expect(droppedCount).toBe(1);
+    });
+
+    it('drops chunks that would be trimmed into too little room', () => {
+      const budget =
+        service.countMessageTokens(fixedMessages) +
+        estimateTokens(format(other, 0)) +
+        20;
+
+      const { context, droppedCount } = service.packContext(
+        [other, long],
+        fixedMessages,
+        budget,
+        format,
+      );
+
+      expect(context).toEqual([other]);
+      expect(droppedCount).toBe(1);
+    });
+  });
+});
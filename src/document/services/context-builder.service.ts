@@ -0,0 +1,304 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ContextChunk } from '../dto/rag.dto';
+import { LlmMessage } from '../llm/llm-provider.interface';
+import {
+  estimateTokens,
+  mergeOverlapping,
+  splitSentences,
+} from '../utils/text.utils';
+
+export interface PackedContext {
+  context: ContextChunk[];
+  /** Estimated input tokens: fixed messages plus packed chunks */
+  tokens: number;
+  droppedCount: number;
+}
+
+interface ChunkPiece {
+  chunkId: string;
+  content: string;
+  chunkIndex: number;
+  startPosition: number;
+  endPosition: number;
+  /** Position in the retrieved context, undefined for pulled-in neighbors */
+  rank?: number;
+}
+
+@Injectable()
+export class ContextBuilderService {
+  private readonly logger = new Logger(ContextBuilderService.name);
+
+  // Chat formats add a few tokens of framing per message
+  private readonly tokensPerMessage = 4;
+
+  // Don't bother trimming a chunk into less room than this
+  private readonly minTrimmedChunkTokens = 50;
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Merge retrieved chunks with up to `window` neighbors on each side into contiguous
+   * passages, removing the overlap between consecutive chunks. Passages keep the
+   * metadata of their best-ranked retrieved chunk and the retrieval order.
+   */
+  async stitchNeighbors(
+    chunks: ContextChunk[],
+    window: number,
+  ): Promise<ContextChunk[]> {
+    if (chunks.length === 0) {
+      return chunks;
+    }
+
+    const piecesByDocument = new Map<string, Map<number, ChunkPiece>>();
+    const addPiece = (documentId: string, piece: ChunkPiece) => {
+      const pieces =
+        piecesByDocument.get(documentId) || new Map<number, ChunkPiece>();
+      const existing = pieces.get(piece.chunkIndex);
+      if (!existing || existing.rank === undefined) {
+        pieces.set(piece.chunkIndex, piece);
+      }
+      piecesByDocument.set(documentId, pieces);
+    };
+
+    if (window > 0) {
+      const neighbors = await this.loadNeighbors(chunks, window);
+      neighbors.forEach((neighbor) => addPiece(neighbor.documentId, neighbor));
+    }
+    chunks.forEach((chunk, rank) =>
+      addPiece(chunk.documentId, { ...chunk, rank }),
+    );
+
+    const passages: Array<{ rank: number; chunk: ContextChunk }> = [];
+
+    for (const pieces of piecesByDocument.values()) {
+      const ordered = Array.from(pieces.values()).sort(
+        (a, b) => a.chunkIndex - b.chunkIndex,
+      );
+
+      // Split into runs of consecutive chunk indexes
+      let run: ChunkPiece[] = [];
+      const flush = () => {
+        const passage = this.mergeRun(run, chunks);
+        if (passage) {
+          passages.push(passage);
+        }
+        run = [];
+      };
+      for (const piece of ordered) {
+        if (
+          run.length > 0 &&
+          piece.chunkIndex !== run[run.length - 1].chunkIndex + 1
+        ) {
+          flush();
+        }
+        run.push(piece);
+      }
+      flush();
+    }
+
+    const stitched = passages
+      .sort((a, b) => a.rank - b.rank)
+      .map((passage) => passage.chunk);
+
+    this.logger.debug(
+      `Stitched ${chunks.length} chunks into ${stitched.length} passages (window ${window})`,
+    );
+
+    return stitched;
+  }
+
+  /**
+   * Estimated prompt tokens for a list of chat messages
+   */
+  countMessageTokens(messages: LlmMessage[]): number {
+    return messages.reduce(
+      (sum, message) =>
+        sum + estimateTokens(message.content) + this.tokensPerMessage,
+      0,
+    );
+  }
+
+  /**
+   * Keep the most recent conversation turns whose messages fit into `maxTokens`
+   */
+  fitHistory<T>(
+    turns: T[],
+    maxTokens: number,
+    toMessages: (turn: T) => LlmMessage[],
+  ): T[] {
+    let tokens = 0;
+    let first = turns.length;
+    while (first > 0) {
+      tokens += this.countMessageTokens(toMessages(turns[first - 1]));
+      if (tokens > maxTokens) {
+        break;
+      }
+      first--;
+    }
+
+    if (first > 0) {
+      this.logger.debug(
+        `Dropped ${first}/${turns.length} history turns over ${maxTokens} tokens`,
+      );
+    }
+    return turns.slice(first);
+  }
+
+  /**
+   * Pack chunks in priority order until the token budget is spent.
+   * The first chunk that doesn't fit is trimmed to whole sentences; the rest are dropped.
+   * The top-ranked chunk is always kept, down to its first sentence if need be.
+   */
+  packContext(
+    chunks: ContextChunk[],
+    fixedMessages: LlmMessage[],
+    budget: number,
+    formatChunk: (chunk: ContextChunk, index: number) => string,
+  ): PackedContext {
+    const fixedTokens = this.countMessageTokens(fixedMessages);
+    let remaining = budget - fixedTokens;
+    const context: ContextChunk[] = [];
+
+    for (const chunk of chunks) {
+      const cost = estimateTokens(formatChunk(chunk, context.length));
+      if (cost <= remaining) {
+        context.push(chunk);
+        remaining -= cost;
+        continue;
+      }
+
+      const isTop = context.length === 0;
+      if (isTop || remaining >= this.minTrimmedChunkTokens) {
+        const trimmed = this.trimChunk(
+          chunk,
+          remaining,
+          (candidate) => estimateTokens(formatChunk(candidate, context.length)),
+          isTop,
+        );
+        if (trimmed) {
+          context.push(trimmed);
+          remaining -= estimateTokens(formatChunk(trimmed, context.length - 1));
+        }
+      }
+      break;
+    }
+
+    const droppedCount = chunks.length - context.length;
+    if (droppedCount > 0 || context.some((chunk) => chunk.truncated)) {
+      this.logger.debug(
+        `Packed ${context.length}/${chunks.length} chunks into ${budget} tokens (${fixedTokens} fixed)`,
+      );
+    }
+
+    return { context, tokens: budget - remaining, droppedCount };
+  }
+
+  /**
+   * Merge a run of consecutive pieces into one passage, or null if none was retrieved
+   */
+  private mergeRun(
+    run: ChunkPiece[],
+    chunks: ContextChunk[],
+  ): { rank: number; chunk: ContextChunk } | null {
+    const retrieved = run.filter((piece) => piece.rank !== undefined);
+    if (retrieved.length === 0) {
+      return null;
+    }
+
+    const rank = Math.min(...retrieved.map((piece) => piece.rank as number));
+    if (run.length === 1) {
+      return { rank, chunk: chunks[rank] };
+    }
+
+    const retrievedChunks = retrieved.map(
+      (piece) => chunks[piece.rank as number],
+    );
+    const rerankScores = retrievedChunks
+      .map((chunk) => chunk.rerankScore)
+      .filter((score): score is number => score !== undefined);
+
+    return {
+      rank,
+      chunk: {
+        ...chunks[rank],
+        content: run
+          .map((piece) => piece.content)
+          .reduce((merged, content) => mergeOverlapping(merged, content)),
+        similarity: Math.max(
+          ...retrievedChunks.map((chunk) => chunk.similarity),
+        ),
+        rerankScore:
+          rerankScores.length > 0 ? Math.max(...rerankScores) : undefined,
+        startPosition: run[0].startPosition,
+        endPosition: run[run.length - 1].endPosition,
+        mergedChunkIds: run.map((piece) => piece.chunkId),
+      },
+    };
+  }
+
+  /**
+   * Load chunks within `window` positions of the retrieved ones
+   */
+  private async loadNeighbors(
+    chunks: ContextChunk[],
+    window: number,
+  ): Promise<Array<ChunkPiece & { documentId: string }>> {
+    const neighbors = await this.prisma.documentChunk.findMany({
+      where: {
+        OR: chunks.map((chunk) => ({
+          documentId: chunk.documentId,
+          chunkIndex: {
+            gte: chunk.chunkIndex - window,
+            lte: chunk.chunkIndex + window,
+          },
+        })),
+      },
+      select: {
+        id: true,
+        documentId: true,
+        content: true,
+        chunkIndex: true,
+        startPosition: true,
+        endPosition: true,
+      },
+    });
+
+    return neighbors.map((neighbor) => ({
+      chunkId: neighbor.id,
+      documentId: neighbor.documentId,
+      content: neighbor.content,
+      chunkIndex: neighbor.chunkIndex,
+      startPosition: neighbor.startPosition,
+      endPosition: neighbor.endPosition,
+    }));
+  }
+
+  /**
+   * Keep the leading sentences of a chunk that fit into the remaining budget,
+   * or at least the first one with `keepFirst`
+   */
+  private trimChunk(
+    chunk: ContextChunk,
+    maxTokens: number,
+    countTokens: (chunk: ContextChunk) => number,
+    keepFirst = false,
+  ): ContextChunk | null {
+    let best: ContextChunk | null = null;
+
+    for (const sentence of splitSentences(chunk.content)) {
+      const candidate: ContextChunk = {
+        ...chunk,
+        content: chunk.content.substring(0, sentence.end),
+        endPosition: chunk.startPosition + sentence.end,
+        truncated: true,
+      };
+      if (countTokens(candidate) > maxTokens && (best || !keepFirst)) {
+        break;
+      }
+      best = candidate;
+    }
+
+    return best;
+  }
+}
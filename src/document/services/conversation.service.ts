@@ -0,0 +1,103 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ConversationDto, ConversationTurnDto } from '../dto/conversation.dto';
+
+@Injectable()
+export class ConversationService {
+  private readonly logger = new Logger(ConversationService.name);
+
+  // A conversation without new turns for this long is considered finished
+  private readonly idleTimeoutMs = 30 * 60 * 1000;
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Start a new conversation
+   */
+  async createConversation(userId?: string): Promise<ConversationDto> {
+    const conversation = await this.prisma.conversation.create({
+      data: { userId },
+    });
+
+    this.logger.debug(`Created conversation ${conversation.id}`);
+    return { ...conversation, turns: [] };
+  }
+
+  /**
+   * Get conversation with all its turns
+   */
+  getConversation(id: string): Promise<ConversationDto | null> {
+    return this.prisma.conversation.findUnique({
+      where: { id },
+      include: {
+        turns: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+  }
+
+  /**
+   * Get the user's latest conversation, or start a new one if it went idle
+   */
+  async getOrCreateActiveConversation(
+    userId: string,
+  ): Promise<ConversationDto> {
+    const latest: ConversationDto | null =
+      await this.prisma.conversation.findFirst({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' },
+      });
+
+    if (
+      latest &&
+      Date.now() - latest.updatedAt.getTime() < this.idleTimeoutMs
+    ) {
+      return { ...latest, turns: [] };
+    }
+
+    return this.createConversation(userId);
+  }
+
+  /**
+   * Get the most recent turns of a conversation in chronological order
+   */
+  async getRecentTurns(
+    conversationId: string,
+    limit: number = 4,
+  ): Promise<ConversationTurnDto[]> {
+    const conversation = await this.prisma.conversation.findUnique({
+      where: { id: conversationId },
+      include: {
+        turns: { orderBy: { createdAt: 'desc' }, take: limit },
+      },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException(`Conversation not found: ${conversationId}`);
+    }
+
+    return [...conversation.turns].reverse();
+  }
+
+  /**
+   * Append a question/answer turn to a conversation
+   */
+  async addTurn(
+    conversationId: string,
+    turn: {
+      question: string;
+      standaloneQuestion?: string;
+      answer: string;
+      responseId?: string;
+    },
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.conversationTurn.create({
+        data: { conversationId, ...turn },
+      }),
+      this.prisma.conversation.update({
+        where: { id: conversationId },
+        data: { updatedAt: new Date() },
+      }),
+    ]);
+  }
+}
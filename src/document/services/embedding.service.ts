@@ -1,44 +1,81 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { tokenize } from '../utils/text.utils';
+import { UsageService } from '../../usage/usage.service';
+import { UsageOperation } from '../../usage/dto/usage.dto';
+import {
+  CircuitOpenError,
+  ResilientOpenAiClient,
+  readResilienceOptions,
+} from '../llm/resilient-openai.client';
 
 @Injectable()
 export class EmbeddingService {
   private readonly logger = new Logger(EmbeddingService.name);
-  private openai: OpenAI;
+  private client: ResilientOpenAiClient;
+
+  // EMBEDDING_PROVIDER=fake: deterministic hashed bag-of-words vectors for offline runs
+  private readonly fake: boolean;
+  private readonly dimensions = 1536;
+
+  constructor(
+    private usage: UsageService,
+    private configService: ConfigService,
+  ) {
+    this.fake = this.configService.get<string>('EMBEDDING_PROVIDER') === 'fake';
+    if (this.fake) {
+      this.logger.warn('Using fake embeddings (EMBEDDING_PROVIDER=fake)');
+      return;
+    }
 
-  constructor() {
     const apiKey = process.env.OPENAI_API_KEY;
     if (!apiKey) {
       throw new Error('OPENAI_API_KEY environment variable is required');
     }
 
-    this.openai = new OpenAI({
-      apiKey: apiKey,
-    });
+    this.client = new ResilientOpenAiClient(
+      'embeddings',
+      { apiKey },
+      readResilienceOptions(this.configService),
+    );
   }
 
   /**
    * Generate embeddings for a single text using OpenAI's text-embedding-3-small model
    */
   async generateEmbedding(text: string): Promise<number[]> {
+    if (this.fake) {
+      return this.fakeEmbedding(text);
+    }
+
     try {
       this.logger.debug(`Generating embedding for text (${text.length} chars)`);
 
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: text,
-        encoding_format: 'float',
-      });
+      const response = await this.client.execute('embedding', (openai) =>
+        openai.embeddings.create({
+          model: 'text-embedding-3-small',
+          input: text,
+          encoding_format: 'float',
+        }),
+      );
 
       if (!response.data || response.data.length === 0) {
         throw new Error('No embedding data received from OpenAI');
       }
 
+      await this.recordUsage(response);
+
       const embedding = response.data[0].embedding;
       
       this.logger.debug(`Generated embedding with ${embedding.length} dimensions`);
       return embedding;
     } catch (error: any) {
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
       this.logger.error(`Failed to generate embedding: ${error.message}`);
       throw new Error(`Embedding generation failed: ${error.message}`);
     }
@@ -48,24 +85,36 @@ export class EmbeddingService {
    * Generate embeddings for multiple texts in batch
    */
   async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (this.fake) {
+      return texts.map((text) => this.fakeEmbedding(text));
+    }
+
     try {
       this.logger.debug(`Generating embeddings for ${texts.length} texts`);
 
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: texts,
-        encoding_format: 'float',
-      });
+      const response = await this.client.execute('batch embedding', (openai) =>
+        openai.embeddings.create({
+          model: 'text-embedding-3-small',
+          input: texts,
+          encoding_format: 'float',
+        }),
+      );
 
       if (!response.data || response.data.length !== texts.length) {
         throw new Error(`Expected ${texts.length} embeddings, got ${response.data?.length || 0}`);
       }
 
+      await this.recordUsage(response);
+
       const embeddings = response.data.map(item => item.embedding);
       
       this.logger.debug(`Generated ${embeddings.length} embeddings`);
       return embeddings;
     } catch (error: any) {
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
       this.logger.error(`Failed to generate embeddings: ${error.message}`);
       throw new Error(`Batch embedding generation failed: ${error.message}`);
     }
@@ -99,16 +148,48 @@ export class EmbeddingService {
     return dotProduct / (normA * normB);
   }
 
+  private recordUsage(response: OpenAI.CreateEmbeddingResponse): Promise<void> {
+    return this.usage.record({
+      operation: UsageOperation.EMBEDDING,
+      model: response.model,
+      promptTokens: response.usage?.prompt_tokens || 0,
+      completionTokens: 0,
+    });
+  }
+
+  /**
+   * Hash each word into one of the vector dimensions; texts sharing words get similar vectors
+   */
+  private fakeEmbedding(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const token of tokenize(text)) {
+      const hash = createHash('md5').update(token).digest();
+      const index = hash.readUInt32BE(0) % this.dimensions;
+      vector[index] += hash[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(
+      vector.reduce((sum, value) => sum + value * value, 0),
+    );
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+
   /**
    * Check if OpenAI API is accessible
    */
   async healthCheck(): Promise<{ status: string; model: string }> {
+    if (this.fake) {
+      return { status: 'fake', model: 'fake-embedding' };
+    }
+
     try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: 'health check',
-        encoding_format: 'float',
-      });
+      await this.client.execute('health check', (openai) =>
+        openai.embeddings.create({
+          model: 'text-embedding-3-small',
+          input: 'health check',
+          encoding_format: 'float',
+        }),
+      );
 
       return {
         status: 'connected',
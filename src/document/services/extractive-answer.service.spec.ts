@@ -0,0 +1,157 @@
+import { ExtractiveAnswerService } from './extractive-answer.service';
+import { ContextChunk } from '../dto/rag.dto';
+
+describe('ExtractiveAnswerService', () => {
+  let service: ExtractiveAnswerService;
+
+  const intro = 'From the transcripts:';
+
+  const chunk = (
+    id: string,
+    content: string,
+    similarity = 0.8,
+    startPosition = 0,
+  ): ContextChunk => ({
+    content,
+    similarity,
+    documentFilename: `${id}.pdf`,
+    documentId: `doc_${id}`,
+    chunkId: `chunk_${id}`,
+    chunkIndex: 0,
+    startPosition,
+    endPosition: startPosition + content.length,
+  });
+
+  const context = [
+    chunk(
+      'lactate',
+      'Yeah, exactly. Zone 2 training is the highest output where lactate stays below two millimoles. We then talked about the podcast schedule for next season.',
+      0.9,
+      1200,
+    ),
+    chunk(
+      'volume',
+      'Peter recommends three to four hours of zone 2 training every week. Zone 2 training also improves how muscles clear lactate from the blood.',
+      0.7,
+      400,
+    ),
+  ];
+
+  beforeEach(() => {
+    service = new ExtractiveAnswerService();
+  });
+
+  describe('buildAnswer', () => {
+    it('quotes the sentences sharing words with the question in source order', () => {
+      const { answer, citations } = service.buildAnswer(
+        'How much zone 2 training per week?',
+        context,
+        intro,
+      );
+
+      expect(answer).toBe(
+        [
+          intro,
+          '"Zone 2 training is the highest output where lactate stays below two millimoles." [1]',
+          '"Peter recommends three to four hours of zone 2 training every week." [2]',
+          '"Zone 2 training also improves how muscles clear lactate from the blood." [2]',
+        ].join('\n\n'),
+      );
+      expect(citations.map((c) => [c.sentenceIndex, c.chunkId])).toEqual([
+        [0, 'chunk_lactate'],
+        [1, 'chunk_volume'],
+        [2, 'chunk_volume'],
+      ]);
+    });
+
+    it('points citation offsets at the quote in the answer and in the chunk', () => {
+      const { answer, citations } = service.buildAnswer(
+        'How much zone 2 training per week?',
+        context,
+        intro,
+      );
+
+      citations.forEach((citation) => {
+        const source = context.find((c) => c.chunkId === citation.chunkId)!;
+        expect(answer.substring(citation.answerStart, citation.answerEnd)).toBe(
+          citation.sentence,
+        );
+        expect(
+          source.content.substring(citation.chunkStart, citation.chunkEnd),
+        ).toBe(citation.sentence);
+        expect(citation.documentStart).toBe(
+          source.startPosition + citation.chunkStart,
+        );
+        expect(citation.documentEnd).toBe(
+          source.startPosition + citation.chunkEnd,
+        );
+      });
+    });
+
+    it('quotes at most two sentences per source and skips repeats', () => {
+      const repeated = chunk(
+        'repeat',
+        'Zone 2 training is the highest output where lactate stays below two millimoles.',
+      );
+      const { citations } = service.buildAnswer(
+        'What does zone 2 training do for lactate?',
+        [
+          chunk(
+            'many',
+            'Zone 2 training raises lactate clearance in trained muscle. Zone 2 training builds more mitochondria in the muscle. Zone 2 training uses fat as the main fuel.',
+          ),
+          repeated,
+          context[0],
+        ],
+        intro,
+      );
+
+      expect(citations.map((c) => c.chunkId)).toEqual([
+        'chunk_many',
+        'chunk_many',
+        'chunk_lactate',
+      ]);
+    });
+
+    it("quotes each chunk's first sentence when no words match the question", () => {
+      const { citations } = service.buildAnswer(
+        'Сколько нужно тренироваться?',
+        context,
+        intro,
+      );
+
+      expect(citations.map((c) => c.sentence)).toEqual([
+        'Zone 2 training is the highest output where lactate stays below two millimoles.',
+        'Peter recommends three to four hours of zone 2 training every week.',
+      ]);
+    });
+
+    it('clips run-on sentences at a word boundary', () => {
+      const runOn = chunk(
+        'runon',
+        `Intro. Zone 2 training ${'and then we kept talking about it '.repeat(15)}for hours.`,
+        0.8,
+        500,
+      );
+
+      const { answer, citations } = service.buildAnswer(
+        'Zone 2 training?',
+        [runOn],
+        intro,
+      );
+
+      const [citation] = citations;
+      expect(citation.sentence.length).toBeLessThanOrEqual(401);
+      expect(citation.sentence.endsWith('…')).toBe(true);
+      expect(runOn.content[citation.chunkEnd]).toBe(' ');
+      expect(answer.substring(citation.answerStart, citation.answerEnd)).toBe(
+        citation.sentence,
+      );
+      // The chunk span covers the quoted text without the ellipsis
+      expect(
+        runOn.content.substring(citation.chunkStart, citation.chunkEnd),
+      ).toBe(citation.sentence.slice(0, -1));
+      expect(citation.documentEnd).toBe(500 + citation.chunkEnd);
+    });
+  });
+});
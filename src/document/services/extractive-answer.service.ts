@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common';
+import { CitationDto, ContextChunk } from '../dto/rag.dto';
+import {
+  TextSpan,
+  lexicalOverlap,
+  splitSentences,
+  tokenize,
+} from '../utils/text.utils';
+
+export interface ExtractiveAnswer {
+  answer: string;
+  citations: CitationDto[];
+}
+
+interface ScoredSentence extends TextSpan {
+  chunk: ContextChunk;
+  sourceNumber: number;
+  /** Share of the question's words in the sentence */
+  overlap: number;
+  score: number;
+}
+
+@Injectable()
+export class ExtractiveAnswerService {
+  private readonly maxQuotes = 3;
+  private readonly maxQuotesPerSource = 2;
+
+  // Shorter sentences are usually transcript fragments ("Yeah, exactly.")
+  private readonly minSentenceLength = 40;
+  private readonly maxSentenceLength = 400;
+
+  // Word overlap with the question decides; retrieval similarity breaks ties
+  private readonly overlapWeight = 0.8;
+  private readonly similarityWeight = 0.2;
+
+  /**
+   * Answer without the LLM: rank the context sentences against the question and
+   * quote the best ones verbatim, each marked with its source number
+   */
+  buildAnswer(
+    question: string,
+    context: ContextChunk[],
+    intro: string,
+  ): ExtractiveAnswer {
+    const selected = this.selectSentences(question, context);
+
+    let answer = intro;
+    const citations: CitationDto[] = [];
+
+    selected.forEach((sentence, sentenceIndex) => {
+      answer += '\n\n"';
+      const answerStart = answer.length;
+      answer += `${sentence.text}" [${sentence.sourceNumber}]`;
+
+      citations.push({
+        sentenceIndex,
+        sentence: sentence.text,
+        answerStart,
+        answerEnd: answerStart + sentence.text.length,
+        chunkId: sentence.chunk.chunkId,
+        documentId: sentence.chunk.documentId,
+        documentFilename: sentence.chunk.documentFilename,
+        chunkStart: sentence.start,
+        chunkEnd: sentence.end,
+        documentStart: sentence.chunk.startPosition + sentence.start,
+        documentEnd: sentence.chunk.startPosition + sentence.end,
+        score: Math.round(sentence.score * 100) / 100,
+      });
+    });
+
+    return { answer, citations };
+  }
+
+  /**
+   * Best sentences sharing words with the question, in the order of their sources. Without
+   * any overlap (e.g. a question in another language than the corpus) each chunk's first
+   * sentence is used.
+   */
+  private selectSentences(
+    question: string,
+    context: ContextChunk[],
+  ): ScoredSentence[] {
+    const questionTokens = tokenize(question);
+    const sentences = context.flatMap((chunk, index) =>
+      splitSentences(chunk.content).map((sentence, position) => {
+        const overlap = lexicalOverlap(questionTokens, tokenize(sentence.text));
+        return {
+          chunk,
+          sourceNumber: index + 1,
+          ...this.clip(sentence),
+          overlap,
+          score:
+            this.overlapWeight * overlap +
+            this.similarityWeight * chunk.similarity -
+            // Slight preference for earlier sentences, which tend to introduce the topic
+            position * 0.001,
+        };
+      }),
+    );
+
+    const substantial = sentences.filter(
+      (sentence) => sentence.text.length >= this.minSentenceLength,
+    );
+    const candidates = substantial.length > 0 ? substantial : sentences;
+
+    const matching = candidates.filter((sentence) => sentence.overlap > 0);
+    const ranked =
+      matching.length > 0
+        ? matching.sort((a, b) => b.score - a.score)
+        : candidates.filter(
+            (sentence, i) =>
+              i === 0 ||
+              candidates[i - 1].sourceNumber !== sentence.sourceNumber,
+          );
+
+    const selected: ScoredSentence[] = [];
+    const seen = new Set<string>();
+    const perSource = new Map<number, number>();
+    for (const sentence of ranked) {
+      const key = sentence.text.toLowerCase();
+      const fromSource = perSource.get(sentence.sourceNumber) || 0;
+      if (seen.has(key) || fromSource >= this.maxQuotesPerSource) {
+        continue;
+      }
+
+      selected.push(sentence);
+      seen.add(key);
+      perSource.set(sentence.sourceNumber, fromSource + 1);
+      if (selected.length >= this.maxQuotes) {
+        break;
+      }
+    }
+
+    return selected.sort(
+      (a, b) => a.sourceNumber - b.sourceNumber || a.start - b.start,
+    );
+  }
+
+  /**
+   * Cut run-on transcript sentences at a word boundary; the span covers the kept text
+   */
+  private clip(sentence: TextSpan): TextSpan {
+    if (sentence.text.length <= this.maxSentenceLength) {
+      return sentence;
+    }
+
+    const cut = sentence.text.lastIndexOf(' ', this.maxSentenceLength);
+    const kept = sentence.text.substring(
+      0,
+      cut > 0 ? cut : this.maxSentenceLength,
+    );
+    return {
+      text: `${kept}…`,
+      start: sentence.start,
+      end: sentence.start + kept.length,
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import { ConfigService } from '@nestjs/config';
+import { FaithfulnessService } from './faithfulness.service';
+import { CitationService } from './citation.service';
+import { QueryTranslationService } from './query-translation.service';
+import { LocaleService } from './locale.service';
+import { LlmProvider } from '../llm/llm-provider.interface';
+import { ClaimSupport, ContextChunk, VerificationMethod } from '../dto/rag.dto';
+
+describe('FaithfulnessService', () => {
+  let service: FaithfulnessService;
+  let complete: jest.Mock;
+
+  const chunk = (id: string, content: string): ContextChunk => ({
+    content,
+    similarity: 0.8,
+    documentFilename: `${id}.pdf`,
+    documentId: `doc_${id}`,
+    chunkId: `chunk_${id}`,
+    chunkIndex: 0,
+    startPosition: 0,
+    endPosition: content.length,
+  });
+
+  const context = [
+    chunk(
+      'zone2',
+      'Zone 2 training improves mitochondrial function in muscle. Most people need three to four hours a week.',
+    ),
+    chunk('rapamycin', 'Peter takes rapamycin once a week. The dose is 5 mg.'),
+  ];
+
+  beforeEach(() => {
+    complete = jest.fn();
+    const llm = { complete } as unknown as LlmProvider;
+    const configService = new ConfigService({});
+    service = new FaithfulnessService(
+      llm,
+      new QueryTranslationService(
+        llm,
+        configService,
+        new LocaleService(configService),
+      ),
+    );
+  });
+
+  describe('verify', () => {
+    it('labels claims by word overlap with the context', async () => {
+      const { claims, groundedness } = await service.verify(
+        'Zone 2 training improves mitochondrial function. Cold plunges double testosterone overnight. Peter takes rapamycin once a week.',
+        context,
+        VerificationMethod.LEXICAL,
+      );
+
+      expect(
+        claims.map((c) => [c.claim, c.status, c.supportingChunkId]),
+      ).toEqual([
+        [
+          'Zone 2 training improves mitochondrial function.',
+          ClaimSupport.SUPPORTED,
+          'chunk_zone2',
+        ],
+        [
+          'Cold plunges double testosterone overnight.',
+          ClaimSupport.UNSUPPORTED,
+          undefined,
+        ],
+        [
+          'Peter takes rapamycin once a week.',
+          ClaimSupport.SUPPORTED,
+          'chunk_rapamycin',
+        ],
+      ]);
+      expect(groundedness).toBe(0.67);
+      expect(complete).not.toHaveBeenCalled();
+    });
+
+    it('flags claims with numbers missing from the context', async () => {
+      const { claims } = await service.verify(
+        'Peter takes 10 mg of rapamycin once a week.',
+        context,
+        VerificationMethod.LEXICAL,
+      );
+
+      expect(claims[0]).toMatchObject({
+        status: ClaimSupport.UNSUPPORTED,
+        reason: 'Numbers not found in context: 10',
+      });
+    });
+
+    it('treats answers without claims as grounded', async () => {
+      await expect(
+        service.verify('Yes, he does.', context, VerificationMethod.LEXICAL),
+      ).resolves.toEqual({ claims: [], groundedness: 1 });
+    });
+
+    it('checks answers in another language than the corpus with the LLM', async () => {
+      complete.mockResolvedValue({
+        content: '[{"claim": 1, "label": "supported", "source": 2}]',
+        model: 'fast',
+      });
+
+      const { claims, groundedness } = await service.verify(
+        'Питер принимает рапамицин раз в неделю.',
+        context,
+        VerificationMethod.LEXICAL,
+      );
+
+      expect(complete).toHaveBeenCalledWith(
+        expect.objectContaining({ tier: 'fast' }),
+      );
+      expect(claims[0]).toMatchObject({
+        status: ClaimSupport.SUPPORTED,
+        supportingChunkId: 'chunk_rapamycin',
+      });
+      expect(groundedness).toBe(1);
+    });
+
+    it('keeps the lexical labels when the LLM check fails', async () => {
+      complete.mockRejectedValue(new Error('rate limited'));
+
+      const { claims } = await service.verify(
+        'Peter takes rapamycin once a week.',
+        context,
+        VerificationMethod.LLM,
+      );
+
+      expect(claims[0]).toMatchObject({
+        status: ClaimSupport.SUPPORTED,
+        score: 1,
+      });
+    });
+  });
+
+  describe('stripUnsupportedClaims', () => {
+    const citationService = new CitationService();
+
+    const verifyAndStrip = async (rawAnswer: string) => {
+      const extracted = citationService.extractCitations(rawAnswer, context);
+      const { claims } = await service.verify(
+        extracted.answer,
+        context,
+        VerificationMethod.LEXICAL,
+        extracted.citations,
+      );
+      return service.stripUnsupportedClaims(
+        extracted.answer,
+        claims,
+        extracted.citations,
+      );
+    };
+
+    it('removes unsupported claims and their citations', async () => {
+      const { answer, citations } = await verifyAndStrip(
+        'Zone 2 training improves mitochondrial function [1]. Cold plunges double testosterone overnight [2]. Peter takes rapamycin once a week [2].',
+      );
+
+      expect(answer).toBe(
+        'Zone 2 training improves mitochondrial function. Peter takes rapamycin once a week.',
+      );
+      expect(citations.map((c) => c.sentence)).toEqual([
+        'Zone 2 training improves mitochondrial function.',
+        'Peter takes rapamycin once a week.',
+      ]);
+    });
+
+    it('shifts the offsets of later citations onto the stripped answer', async () => {
+      const { answer, citations } = await verifyAndStrip(
+        'Cold plunges double testosterone overnight [2]. Zone 2 training improves mitochondrial function [1].  Sauna bathing doubles growth hormone [1]. Peter takes rapamycin once a week [2].',
+      );
+
+      expect(answer).toBe(
+        'Zone 2 training improves mitochondrial function.  Peter takes rapamycin once a week.',
+      );
+      expect(citations).toHaveLength(2);
+      for (const citation of citations) {
+        expect(answer.substring(citation.answerStart, citation.answerEnd)).toBe(
+          citation.sentence,
+        );
+      }
+    });
+
+    it('drops the space before a removed final claim', async () => {
+      const { answer } = await verifyAndStrip(
+        'Peter takes rapamycin once a week [2]. Cold plunges double testosterone overnight [2].',
+      );
+
+      expect(answer).toBe('Peter takes rapamycin once a week.');
+    });
+
+    it('keeps the answer when every claim is unsupported', async () => {
+      const rawAnswer =
+        'Cold plunges double testosterone overnight [2]. Sauna bathing doubles growth hormone [1].';
+      const extracted = citationService.extractCitations(rawAnswer, context);
+
+      await expect(verifyAndStrip(rawAnswer)).resolves.toEqual(extracted);
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  CitationDto,
+  ClaimSupport,
+  ClaimVerificationDto,
+  ContextChunk,
+  VerificationMethod,
+} from '../dto/rag.dto';
+import { LLM_PROVIDER, LlmProvider } from '../llm/llm-provider.interface';
+import { QueryTranslationService } from './query-translation.service';
+import { lexicalOverlap, splitSentences, tokenize } from '../utils/text.utils';
+
+export interface VerificationResult {
+  claims: ClaimVerificationDto[];
+  groundedness: number;
+}
+
+@Injectable()
+export class FaithfulnessService {
+  private readonly logger = new Logger(FaithfulnessService.name);
+
+  // Lexical overlap thresholds for full and partial support
+  private readonly supportedThreshold = 0.6;
+  private readonly partialThreshold = 0.35;
+
+  // Sentences with fewer content words are connectives, not claims
+  private readonly minClaimTokens = 3;
+
+  constructor(
+    @Inject(LLM_PROVIDER) private llm: LlmProvider,
+    private queryTranslationService: QueryTranslationService,
+  ) {}
+
+  /**
+   * Split the answer into claims and check each one against the context. Word overlap
+   * cannot match claims to context in another language, so answers that are not in the
+   * corpus language are checked by the LLM instead.
+   */
+  async verify(
+    answer: string,
+    context: ContextChunk[],
+    method: VerificationMethod,
+    citations: CitationDto[] = [],
+  ): Promise<VerificationResult> {
+    const claims = splitSentences(answer)
+      .filter(
+        (sentence) => tokenize(sentence.text).length >= this.minClaimTokens,
+      )
+      .map((sentence, claimIndex) => ({
+        claimIndex,
+        claim: sentence.text,
+        start: sentence.start,
+        end: sentence.end,
+      }));
+
+    if (claims.length === 0) {
+      return { claims: [], groundedness: 1 };
+    }
+
+    if (
+      method === VerificationMethod.LEXICAL &&
+      this.queryTranslationService.detectLanguage(answer) !==
+        this.queryTranslationService.corpusLanguage
+    ) {
+      method = VerificationMethod.LLM;
+    }
+
+    let verified: ClaimVerificationDto[] = claims.map((claim) =>
+      this.verifyLexically(claim, context, citations),
+    );
+
+    if (method === VerificationMethod.LLM) {
+      verified = await this.verifyWithLlm(verified, context);
+    }
+
+    // Numbers (doses, durations, frequencies) must appear in the context verbatim
+    const contextNumbers = new Set(
+      context.flatMap((chunk) => this.extractNumbers(chunk.content)),
+    );
+    verified = verified.map((claim) => {
+      const missing = this.extractNumbers(claim.claim).filter(
+        (n) => !contextNumbers.has(n),
+      );
+      return missing.length > 0
+        ? {
+            ...claim,
+            status: ClaimSupport.UNSUPPORTED,
+            reason: `Numbers not found in context: ${missing.join(', ')}`,
+          }
+        : claim;
+    });
+
+    const groundedness = this.calculateGroundedness(verified);
+
+    this.logger.debug(
+      `Verified ${verified.length} claims (${method}): groundedness ${groundedness.toFixed(2)}`,
+    );
+
+    return { claims: verified, groundedness };
+  }
+
+  /**
+   * Remove unsupported claims from the answer and shift citation offsets accordingly.
+   * If nothing would be left, the answer is kept as is and the claims stay flagged.
+   */
+  stripUnsupportedClaims(
+    answer: string,
+    claims: ClaimVerificationDto[],
+    citations: CitationDto[],
+  ): { answer: string; citations: CitationDto[] } {
+    const removed = claims
+      .filter((claim) => claim.status === ClaimSupport.UNSUPPORTED)
+      .sort((a, b) => a.start - b.start);
+
+    if (removed.length === 0) {
+      return { answer, citations };
+    }
+
+    // The spaces after a claim go with it, so the offsets below stay exact
+    const spans = removed.map((claim) => ({
+      start: claim.start,
+      end: claim.end + answer.substring(claim.end).search(/[^ \t]|$/),
+    }));
+
+    let stripped = '';
+    let cursor = 0;
+    for (const span of spans) {
+      stripped += answer.substring(cursor, span.start);
+      cursor = span.end;
+    }
+    stripped += answer.substring(cursor);
+    stripped = stripped.trimEnd();
+
+    if (!stripped.trim()) {
+      this.logger.warn(
+        `All ${removed.length} claims are unsupported, keeping the answer unstripped`,
+      );
+      return { answer, citations };
+    }
+
+    const shift = (offset: number) =>
+      offset -
+      spans
+        .filter((span) => span.end <= offset)
+        .reduce((sum, span) => sum + (span.end - span.start), 0);
+
+    const keptCitations = citations
+      .filter(
+        (citation) =>
+          !spans.some(
+            (span) =>
+              citation.answerStart >= span.start &&
+              citation.answerStart < span.end,
+          ),
+      )
+      .map((citation) =>
+        citation.answerStart < 0
+          ? citation
+          : {
+              ...citation,
+              answerStart: shift(citation.answerStart),
+              answerEnd: shift(citation.answerEnd),
+            },
+      );
+
+    return {
+      answer: stripped,
+      citations: keptCitations,
+    };
+  }
+
+  private verifyLexically(
+    claim: Pick<ClaimVerificationDto, 'claimIndex' | 'claim' | 'start' | 'end'>,
+    context: ContextChunk[],
+    citations: CitationDto[],
+  ): ClaimVerificationDto {
+    const claimTokens = tokenize(claim.claim);
+
+    // Chunks the model cited for this sentence are checked first
+    const citedChunkIds = new Set(
+      citations
+        .filter(
+          (c) => c.answerStart >= claim.start && c.answerStart < claim.end,
+        )
+        .map((c) => c.chunkId),
+    );
+    const ordered = [
+      ...context.filter((chunk) => citedChunkIds.has(chunk.chunkId)),
+      ...context.filter((chunk) => !citedChunkIds.has(chunk.chunkId)),
+    ];
+
+    let bestScore = 0;
+    let bestChunkId: string | undefined;
+    for (const chunk of ordered) {
+      const score = lexicalOverlap(claimTokens, tokenize(chunk.content));
+      if (score > bestScore) {
+        bestScore = score;
+        bestChunkId = chunk.chunkId;
+      }
+    }
+
+    return {
+      ...claim,
+      status: this.statusForScore(bestScore),
+      score: Math.round(bestScore * 100) / 100,
+      supportingChunkId: bestChunkId,
+      reason:
+        bestScore < this.supportedThreshold
+          ? 'Low word overlap with context'
+          : undefined,
+    };
+  }
+
+  /**
+   * NLI-style check: ask the fast model whether each claim is entailed by the context
+   */
+  private async verifyWithLlm(
+    claims: ClaimVerificationDto[],
+    context: ContextChunk[],
+  ): Promise<ClaimVerificationDto[]> {
+    const sources = context
+      .map((chunk, index) => `[${index + 1}] ${chunk.content}`)
+      .join('\n\n');
+    const numberedClaims = claims
+      .map((claim, index) => `${index + 1}. ${claim.claim}`)
+      .join('\n');
+
+    try {
+      const completion = await this.llm.complete({
+        tier: 'fast',
+        temperature: 0,
+        maxTokens: 60 * claims.length + 50,
+        messages: [
+          {
+            role: 'system',
+            content: `You are a strict fact checker. For each claim decide whether it is entailed by the sources.
+- "supported": the sources state it (paraphrasing is fine)
+- "partial": the sources state part of it, or it adds details not in the sources
+- "unsupported": the sources do not state it or contradict it
+Respond with a JSON array only: [{"claim": <claim number>, "label": "supported" | "partial" | "unsupported", "source": <source number or null>}]`,
+          },
+          {
+            role: 'user',
+            content: `Sources:\n${sources}\n\nClaims:\n${numberedClaims}`,
+          },
+        ],
+      });
+
+      const json = completion.content.substring(
+        completion.content.indexOf('['),
+        completion.content.lastIndexOf(']') + 1,
+      );
+      const labels = JSON.parse(json) as Array<{
+        claim: number;
+        label: string;
+        source?: number | null;
+      }>;
+
+      return claims.map((claim, index) => {
+        const label = labels.find((l) => l.claim === index + 1);
+        const status = Object.values(ClaimSupport).find(
+          (s) => s === label?.label,
+        );
+        if (!label || !status) {
+          return claim;
+        }
+
+        const supportingChunk = label.source
+          ? context[label.source - 1]
+          : undefined;
+        return {
+          ...claim,
+          status,
+          score:
+            status === ClaimSupport.SUPPORTED
+              ? 1
+              : status === ClaimSupport.PARTIAL
+                ? 0.5
+                : 0,
+          supportingChunkId: supportingChunk?.chunkId,
+          reason:
+            status === ClaimSupport.SUPPORTED
+              ? undefined
+              : 'Not entailed by context (LLM check)',
+        };
+      });
+    } catch (error: any) {
+      // The lexical result is a usable lower bound when the LLM check fails
+      this.logger.warn(`LLM claim verification failed: ${error.message}`);
+      return claims;
+    }
+  }
+
+  private statusForScore(score: number): ClaimSupport {
+    if (score >= this.supportedThreshold) return ClaimSupport.SUPPORTED;
+    if (score >= this.partialThreshold) return ClaimSupport.PARTIAL;
+    return ClaimSupport.UNSUPPORTED;
+  }
+
+  private calculateGroundedness(claims: ClaimVerificationDto[]): number {
+    const total = claims.reduce((sum, claim) => {
+      if (claim.status === ClaimSupport.SUPPORTED) return sum + 1;
+      if (claim.status === ClaimSupport.PARTIAL) return sum + 0.5;
+      return sum;
+    }, 0);
+
+    return Math.round((total / claims.length) * 100) / 100;
+  }
+
+  /**
+   * Normalized numbers in the text ("2,5" -> "2.5", "10.0" -> "10")
+   */
+  private extractNumbers(text: string): string[] {
+    return Array.from(text.matchAll(/\d+(?:[.,]\d+)?/g), ([n]) =>
+      String(parseFloat(n.replace(',', '.'))),
+    );
+  }
+}
@@ -0,0 +1,248 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  AnswerFeedbackDto,
+  AnswerFeedbackRequestDto,
+  FeedbackRating,
+  FeedbackReason,
+  NegativeFeedbackCaseDto,
+} from '../dto/feedback.dto';
+
+export interface SatisfactionStat {
+  key: string;
+  ratings: number;
+  positive: number;
+  /** Share of positive ratings, 0-1 */
+  satisfactionRate: number;
+}
+
+export interface SatisfactionStats {
+  ratings: number;
+  satisfactionRate: number;
+  byMode: SatisfactionStat[];
+  byDocument: SatisfactionStat[];
+  byPromptVersion: SatisfactionStat[];
+}
+
+interface LoggedResponse {
+  query: string;
+  user_id: string | null;
+  prompt_version: string | null;
+  results: {
+    responseMode?: string;
+    sources?: string[];
+    chunkIds?: string[];
+    answer?: string;
+  } | null;
+}
+
+interface FeedbackRecord {
+  id: string;
+  responseId: string;
+  userId: string | null;
+  rating: string;
+  reason: string | null;
+  comment: string | null;
+  query: string;
+  answer: string | null;
+  responseMode: string | null;
+  promptVersion: string | null;
+  chunkIds: string[];
+  sources: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface SatisfactionRow {
+  key: string | null;
+  ratings: bigint;
+  positive: bigint;
+}
+
+@Injectable()
+export class FeedbackService {
+  private readonly logger = new Logger(FeedbackService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Record feedback on an answer, replacing earlier feedback on it. The question, answer,
+   * chunks and prompt version are copied from the interaction log, so feedback stays
+   * reviewable as prompts and documents change. Returns null for an unknown response.
+   */
+  async submitFeedback(
+    responseId: string,
+    feedback: AnswerFeedbackRequestDto,
+  ): Promise<AnswerFeedbackDto | null> {
+    const logged = await this.findLoggedResponse(responseId);
+    if (!logged) {
+      return null;
+    }
+
+    const snapshot = {
+      query: logged.query,
+      answer: logged.results?.answer,
+      responseMode: logged.results?.responseMode,
+      promptVersion: logged.prompt_version,
+      chunkIds: logged.results?.chunkIds || [],
+      sources: logged.results?.sources || [],
+    };
+    const rating = {
+      userId: feedback.userId || logged.user_id,
+      rating: feedback.rating,
+      reason: feedback.reason || null,
+      comment: feedback.comment || null,
+    };
+
+    const record: FeedbackRecord = await this.prisma.answerFeedback.upsert({
+      where: { responseId },
+      create: { responseId, ...snapshot, ...rating },
+      update: rating,
+    });
+
+    this.logger.log(
+      `Feedback on ${responseId}: ${feedback.rating}${feedback.reason ? ` (${feedback.reason})` : ''}`,
+    );
+    return this.toDto(record);
+  }
+
+  /**
+   * Share of positive ratings overall and per response mode, source document and prompt version
+   */
+  async getSatisfactionStats(): Promise<SatisfactionStats> {
+    const [totals, byMode, byDocument, byPromptVersion] = await Promise.all([
+      this.prisma.answerFeedback.groupBy({
+        by: ['rating'],
+        _count: { _all: true },
+      }) as Promise<Array<{ rating: string; _count: { _all: number } }>>,
+      this.prisma.$queryRaw`
+        SELECT
+          response_mode as key,
+          COUNT(*) as ratings,
+          COUNT(*) FILTER (WHERE rating = ${FeedbackRating.POSITIVE}) as positive
+        FROM answer_feedback
+        GROUP BY response_mode
+        ORDER BY ratings DESC
+      ` as Promise<SatisfactionRow[]>,
+      this.prisma.$queryRaw`
+        SELECT
+          source as key,
+          COUNT(*) as ratings,
+          COUNT(*) FILTER (WHERE rating = ${FeedbackRating.POSITIVE}) as positive
+        FROM answer_feedback, unnest(sources) as source
+        GROUP BY source
+        ORDER BY ratings DESC
+        LIMIT 20
+      ` as Promise<SatisfactionRow[]>,
+      this.prisma.$queryRaw`
+        SELECT
+          prompt_version as key,
+          COUNT(*) as ratings,
+          COUNT(*) FILTER (WHERE rating = ${FeedbackRating.POSITIVE}) as positive
+        FROM answer_feedback
+        WHERE prompt_version IS NOT NULL
+        GROUP BY prompt_version
+        ORDER BY ratings DESC
+      ` as Promise<SatisfactionRow[]>,
+    ]);
+
+    const ratings = totals.reduce((sum, row) => sum + row._count._all, 0);
+    const positive =
+      totals.find((row) => row.rating === FeedbackRating.POSITIVE)?._count
+        ._all || 0;
+
+    return {
+      ratings,
+      satisfactionRate: this.rate(positive, ratings),
+      byMode: byMode.map((row) => this.toStat(row)),
+      byDocument: byDocument.map((row) => this.toStat(row)),
+      byPromptVersion: byPromptVersion.map((row) => this.toStat(row)),
+    };
+  }
+
+  /**
+   * Most recent negative ratings with the answer and the current text of its chunks
+   */
+  async getNegativeCases(
+    limit: number,
+    from?: Date,
+    to?: Date,
+  ): Promise<NegativeFeedbackCaseDto[]> {
+    const records = (await this.prisma.answerFeedback.findMany({
+      where: {
+        rating: FeedbackRating.NEGATIVE,
+        createdAt: { gte: from, lt: to },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })) as FeedbackRecord[];
+
+    const chunkIds = Array.from(
+      new Set(records.flatMap((record) => record.chunkIds)),
+    );
+    const chunks: Array<{ id: string; content: string }> =
+      chunkIds.length > 0
+        ? await this.prisma.documentChunk.findMany({
+            where: { id: { in: chunkIds } },
+            select: { id: true, content: true },
+          })
+        : [];
+    const contentById = new Map(
+      chunks.map((chunk) => [chunk.id, chunk.content]),
+    );
+
+    return records.map((record) => ({
+      ...this.toDto(record),
+      answer: record.answer || undefined,
+      chunks: record.chunkIds.map((chunkId) => ({
+        chunkId,
+        content: contentById.get(chunkId),
+      })),
+    }));
+  }
+
+  private async findLoggedResponse(
+    responseId: string,
+  ): Promise<LoggedResponse | null> {
+    const rows = (await this.prisma.$queryRaw`
+      SELECT query, user_id, prompt_version, results
+      FROM search_logs
+      WHERE results->>'responseId' = ${responseId}
+      ORDER BY created_at DESC
+      LIMIT 1
+    `) as LoggedResponse[];
+    return rows[0] || null;
+  }
+
+  private toStat(row: SatisfactionRow): SatisfactionStat {
+    const ratings = Number(row.ratings);
+    return {
+      key: row.key || 'unknown',
+      ratings,
+      positive: Number(row.positive),
+      satisfactionRate: this.rate(Number(row.positive), ratings),
+    };
+  }
+
+  private rate(positive: number, ratings: number): number {
+    return ratings > 0 ? Math.round((positive / ratings) * 100) / 100 : 0;
+  }
+
+  private toDto(record: FeedbackRecord): AnswerFeedbackDto {
+    return {
+      id: record.id,
+      responseId: record.responseId,
+      userId: record.userId || undefined,
+      rating: record.rating as FeedbackRating,
+      reason: (record.reason as FeedbackReason) || undefined,
+      comment: record.comment || undefined,
+      query: record.query,
+      responseMode: record.responseMode || undefined,
+      promptVersion: record.promptVersion || undefined,
+      chunkIds: record.chunkIds,
+      sources: record.sources,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,209 @@
+import { ConfigService } from '@nestjs/config';
+import { GuardrailService } from './guardrail.service';
+import { LocaleService } from './locale.service';
+import {
+  ContextChunk,
+  EvidenceStrength,
+  GuardrailAction,
+  GuardrailCategory,
+} from '../dto/rag.dto';
+import { BUILTIN_LOCALES } from '../locales';
+
+describe('GuardrailService', () => {
+  let service: GuardrailService;
+
+  const messages = BUILTIN_LOCALES.en.guardrails;
+
+  const chunk = (content: string): ContextChunk => ({
+    content,
+    similarity: 0.8,
+    documentFilename: '#250 ‒ Training principles for longevity.pdf',
+    documentId: 'doc_1',
+    chunkId: 'chunk_1',
+    chunkIndex: 0,
+    startPosition: 0,
+    endPosition: content.length,
+  });
+
+  const allow = {
+    category: GuardrailCategory.NONE,
+    action: GuardrailAction.ALLOW,
+  };
+
+  beforeEach(() => {
+    service = new GuardrailService(new LocaleService(new ConfigService({})));
+  });
+
+  describe('assessQuestion', () => {
+    const cases: Array<[GuardrailCategory, GuardrailAction, string]> = [
+      [
+        GuardrailCategory.EMERGENCY,
+        GuardrailAction.REDIRECT,
+        "I think I'm having a heart attack",
+      ],
+      [
+        GuardrailCategory.EMERGENCY,
+        GuardrailAction.REDIRECT,
+        'I have severe chest pain and my left arm is numb',
+      ],
+      [
+        GuardrailCategory.EMERGENCY,
+        GuardrailAction.REDIRECT,
+        'У меня сильная боль в груди',
+      ],
+      [
+        GuardrailCategory.EMERGENCY,
+        GuardrailAction.REDIRECT,
+        'My friend took too many pills and passed out',
+      ],
+      [
+        GuardrailCategory.SELF_HARM,
+        GuardrailAction.REDIRECT,
+        'I want to end my life',
+      ],
+      [
+        GuardrailCategory.PRESCRIPTION_DOSING,
+        GuardrailAction.REFUSE,
+        'How much metformin should I take?',
+      ],
+      [
+        GuardrailCategory.PRESCRIPTION_DOSING,
+        GuardrailAction.DISCLAIMER,
+        'What rapamycin dose does Peter Attia discuss?',
+      ],
+      [
+        GuardrailCategory.DIAGNOSIS,
+        GuardrailAction.DISCLAIMER,
+        'What do my lab results mean for ApoB?',
+      ],
+      [
+        GuardrailCategory.NONE,
+        GuardrailAction.ALLOW,
+        'What causes chest pain during zone 5 training?',
+      ],
+      [
+        GuardrailCategory.NONE,
+        GuardrailAction.ALLOW,
+        'Почему при интервальных тренировках бывает боль в груди?',
+      ],
+      [
+        GuardrailCategory.NONE,
+        GuardrailAction.ALLOW,
+        'How can I lower my risk of a heart attack?',
+      ],
+      [
+        GuardrailCategory.NONE,
+        GuardrailAction.ALLOW,
+        'What are the benefits of zone 2 training?',
+      ],
+    ];
+
+    it.each(cases)('classifies as %s (%s): "%s"', (category, action, q) => {
+      const { decision } = service.assessQuestion(q, 'en');
+
+      expect(decision).toEqual({ category, action });
+    });
+
+    it('replies instead of answering redirected and refused questions', () => {
+      expect(
+        service.assessQuestion('I have chest pain right now', 'en').reply,
+      ).toBe(messages.emergency);
+      expect(
+        service.assessQuestion('How much metformin should I take?', 'en').reply,
+      ).toBe(messages.dosingRefusal);
+      expect(
+        service.assessQuestion('What is zone 2?', 'en').reply,
+      ).toBeUndefined();
+    });
+  });
+
+  describe('extractDosages', () => {
+    it('normalizes amounts, ranges and units', () => {
+      expect(
+        service.extractDosages('Take 500-1000 мг, or 2,5 g, or 5 milligrams.'),
+      ).toEqual(['500 mg', '1000 mg', '2.5 g', '5 mg']);
+    });
+
+    it('reads grams in Cyrillic', () => {
+      expect(service.extractDosages('около 30 г белка')).toEqual(['30 g']);
+    });
+
+    it('does not read the Russian year abbreviation as grams', () => {
+      expect(service.extractDosages('В 2020 г. вышло исследование')).toEqual(
+        [],
+      );
+    });
+
+    it('ignores numbers without a unit', () => {
+      expect(service.extractDosages('Episode 250 from 2023')).toEqual([]);
+    });
+  });
+
+  describe('reviewAnswer', () => {
+    const context = [chunk('Peter takes 5 mg of rapamycin once a week.')];
+
+    it('keeps answers whose dosages are in the context', () => {
+      const answer = 'He takes 5 mg once a week [1].';
+
+      expect(
+        service.reviewAnswer(answer, context, allow, 'en', 'Rapamycin?'),
+      ).toEqual({ answer, decision: allow, recommendations: undefined });
+    });
+
+    it('adds the disclaimer for dosages missing from the context', () => {
+      const { answer, decision } = service.reviewAnswer(
+        'He takes 10 mg once a week [1].',
+        context,
+        allow,
+        'en',
+        'Rapamycin?',
+      );
+
+      expect(decision).toEqual({
+        ...allow,
+        action: GuardrailAction.DISCLAIMER,
+        unsupportedDosages: ['10 mg'],
+      });
+      expect(answer).toContain(messages.unsupportedDosage);
+      expect(answer).toContain(messages.disclaimer);
+    });
+
+    it('removes recommendation doses missing from the context', () => {
+      const supported = {
+        intervention: 'Rapamycin',
+        dose: '5 mg',
+        evidenceStrength: EvidenceStrength.ANECDOTAL,
+        supportingChunkIds: ['chunk_1'],
+      };
+      const unsupported = { ...supported, dose: '6 mg per week' };
+
+      const { recommendations, decision } = service.reviewAnswer(
+        'Peter takes rapamycin weekly [1].',
+        context,
+        allow,
+        'en',
+        'Rapamycin?',
+        [supported, unsupported],
+      );
+
+      expect(recommendations).toEqual([
+        supported,
+        { ...unsupported, dose: undefined },
+      ]);
+      expect(decision.unsupportedDosages).toEqual(['6 mg']);
+      expect(decision.action).toBe(GuardrailAction.DISCLAIMER);
+    });
+
+    it('does not flag years written with "г."', () => {
+      const { decision } = service.reviewAnswer(
+        'В 2020 г. Питер начал принимать рапамицин.',
+        context,
+        allow,
+        'ru',
+        'Рапамицин?',
+      );
+
+      expect(decision).toEqual(allow);
+    });
+  });
+});
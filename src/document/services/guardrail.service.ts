@@ -0,0 +1,255 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  ContextChunk,
+  GuardrailAction,
+  GuardrailCategory,
+  GuardrailDecisionDto,
+  RecommendationDto,
+} from '../dto/rag.dto';
+import { LocaleService } from './locale.service';
+
+export interface QuestionAssessment {
+  decision: GuardrailDecisionDto;
+  /** Reply to send instead of an answer, set for redirected and refused questions */
+  reply?: string;
+}
+
+@Injectable()
+export class GuardrailService {
+  private readonly logger = new Logger(GuardrailService.name);
+
+  private readonly selfHarmPatterns = [
+    /\b(?:kill|hurt|harm|cut) myself\b/i,
+    /\bsuicid(?:e|al)\b/i,
+    /\b(?:end my life|want to die|self[- ]harm)\b/i,
+    /покончить с собой|суицид|убить себя|не хочу жить|причинить себе вред/iu,
+    /покінчити з собою|суїцид|вбити себе|не хочу жити/iu,
+    /selbstmord|suizid|mich umbringen|nicht mehr leben/iu,
+    /suicid|quitarme la vida|matarme|no quiero vivir/iu,
+  ];
+
+  // Acute situations only; questions about preventing a heart attack or stroke are fine
+  private readonly emergencyPatterns = [
+    /\b(?:having|had|think i'?m having) (?:a )?(?:heart attack|stroke|seizure|anaphyla)/i,
+    /\b(?:i (?:have|got)|i'?m having|i am having|having|my) (?:(?:a |some )?(?:severe|sudden|sharp|bad|crushing) )?chest pains?\b/i,
+    /\b(?:can'?t|cannot|unable to) breathe\b/i,
+    /\b(?:overdosed|took too (?:much|many)|not breathing|unconscious|passed out)\b/i,
+    /\b(?:severe bleeding|bleeding (?:heavily|won'?t stop))\b/i,
+    /у меня (?:\p{L}+ )?боль в груди|у меня болит (?:в )?груд|не могу дышать|не дышит|без сознания|потерял[аи]? сознание|у меня (?:инфаркт|инсульт)|сильное кровотечение/iu,
+    /у мене (?:\p{L}+ )?біль у грудях|у мене болить (?:у )?груд|не можу дихати|не дихає|без свідомості|у мене (?:інфаркт|інсульт)/iu,
+    /ich habe (?:\p{L}+ )?brustschmerz|kann nicht atmen|bekomme keine luft|bewusstlos|überdosis genommen/iu,
+    /tengo (?:un )?dolor (?:en el|de) pecho|me duele el pecho|no puedo respirar|inconsciente|tomé demasiad/iu,
+  ];
+
+  // Prescription-only drugs discussed in the podcast, as word prefixes to cover inflections
+  private readonly prescriptionDrugPattern =
+    /(?<!\p{L})(?:metformin|rapamycin|sirolimus|statin|rosuvastatin|atorvastatin|ezetimibe|bempedoic|pcsk9|repatha|semaglutide|ozempic|wegovy|tirzepatide|mounjaro|glp-?1|sglt-?2|empagliflozin|dapagliflozin|acarbose|insulin|testosteron|trt(?!\p{L})|estradiol|estrogen|progesteron|hrt(?!\p{L})|levothyrox|finasterid|prescri|метформин|рапамицин|статин|инсулин|тестостерон|семаглутид|оземпик|рецептурн|метформін|рапаміцин|інсулін|östrogen|verschreibungspflichtig|con receta)/iu;
+
+  private readonly dosingPatterns = [
+    /\b(?:dose|doses|dosage|dosing|how much|how many|mg|milligrams?|units?)\b/i,
+    /доз|сколько|скільки|(?<!\p{L})мг(?!\p{L})|dosis|dosierung|wie viel|cuánt[oa]|cuant[oa]/iu,
+  ];
+
+  // First-person framing turns a question about a drug into a request for a personal dose
+  private readonly personalPatterns = [
+    /\b(?:i|me|my)\b/i,
+    /(?<!\p{L})(?:мне|я|мой|моя|моей|мені|мій|ich|mir|mein\p{L}*|debo|debería|tomo|mi|me)(?!\p{L})/iu,
+  ];
+
+  private readonly diagnosisPatterns = [
+    /\b(?:do i have|what(?:'s| is) wrong with me|diagnos(?:e|is))\b/i,
+    /\bis (?:this|it) (?:cancer|diabetes|a tumou?r)\b/i,
+    /\bmy (?:symptoms|lab results|blood (?:test|work)|test results)\b/i,
+    /диагноз|что со мной|у меня (?:болит|симптом|боли)|мои анализы|это (?:рак|диабет)/iu,
+    /діагноз|що зі мною|у мене болить|мої аналізи/iu,
+    /diagnose|was fehlt mir|habe ich (?:krebs|diabetes)|meine (?:symptome|blutwerte|laborwerte)/iu,
+    /diagnóstico|diagnostico|qué me pasa|tengo (?:cáncer|diabetes)|mis (?:síntomas|análisis|resultados)/iu,
+  ];
+
+  // Amount (or range) followed by a unit, e.g. "500 mg", "1-2 g", "10 мг". "г." is the
+  // Russian abbreviation for year ("в 2020 г."), so grams in Cyrillic must not end with a dot.
+  private readonly dosagePattern =
+    /(\d+(?:[.,]\d+)?)(?:\s*[-–]\s*(\d+(?:[.,]\d+)?))?\s*(mg\/kg|g\/kg|milligrams?|micrograms?|grams?|mcg|µg|μg|mg|g|iu|ml|units?|мкг|мг|г(?!\.)|мл|ме|ед)(?!\p{L})/giu;
+
+  private readonly unitAliases: Record<string, string> = {
+    milligram: 'mg',
+    milligrams: 'mg',
+    microgram: 'mcg',
+    micrograms: 'mcg',
+    µg: 'mcg',
+    μg: 'mcg',
+    мкг: 'mcg',
+    gram: 'g',
+    grams: 'g',
+    мг: 'mg',
+    г: 'g',
+    мл: 'ml',
+    ме: 'iu',
+    unit: 'units',
+    ед: 'units',
+  };
+
+  constructor(private locales: LocaleService) {}
+
+  /**
+   * Triage a question before answering. Emergencies and self-harm are redirected to
+   * professional help, personal prescription dosing is refused, and other dosing and
+   * diagnosis questions are answered with a disclaimer.
+   */
+  assessQuestion(question: string, language: string): QuestionAssessment {
+    const category = this.classify(question);
+    const messages = this.locales.getLocale(language, question).guardrails;
+
+    let assessment: QuestionAssessment;
+    switch (category) {
+      case GuardrailCategory.SELF_HARM:
+        assessment = {
+          decision: { category, action: GuardrailAction.REDIRECT },
+          reply: messages.selfHarm,
+        };
+        break;
+      case GuardrailCategory.EMERGENCY:
+        assessment = {
+          decision: { category, action: GuardrailAction.REDIRECT },
+          reply: messages.emergency,
+        };
+        break;
+      case GuardrailCategory.PRESCRIPTION_DOSING:
+        assessment = this.personalPatterns.some((pattern) =>
+          pattern.test(question),
+        )
+          ? {
+              decision: { category, action: GuardrailAction.REFUSE },
+              reply: messages.dosingRefusal,
+            }
+          : { decision: { category, action: GuardrailAction.DISCLAIMER } };
+        break;
+      case GuardrailCategory.DIAGNOSIS:
+        assessment = {
+          decision: { category, action: GuardrailAction.DISCLAIMER },
+        };
+        break;
+      default:
+        assessment = {
+          decision: { category, action: GuardrailAction.ALLOW },
+        };
+    }
+
+    if (category !== GuardrailCategory.NONE) {
+      this.logger.log(
+        `Guardrail triage: ${category} -> ${assessment.decision.action}`,
+      );
+    }
+    return assessment;
+  }
+
+  /**
+   * Check the final answer and the doses of structured recommendations for dosages the
+   * context does not contain, and append the localized disclaimer when the question or
+   * the answer calls for one. Recommendation doses are sent to clients as they are, so
+   * unsupported ones are removed.
+   */
+  reviewAnswer(
+    answer: string,
+    context: ContextChunk[],
+    decision: GuardrailDecisionDto,
+    language: string,
+    question: string,
+    recommendations?: RecommendationDto[],
+  ): {
+    answer: string;
+    decision: GuardrailDecisionDto;
+    recommendations?: RecommendationDto[];
+  } {
+    const contextDosages = new Set(
+      context.flatMap((chunk) => this.extractDosages(chunk.content)),
+    );
+    const findUnsupported = (text: string) =>
+      this.extractDosages(text).filter((dosage) => !contextDosages.has(dosage));
+
+    const reviewedRecommendations = recommendations?.map((recommendation) =>
+      recommendation.dose && findUnsupported(recommendation.dose).length > 0
+        ? { ...recommendation, dose: undefined }
+        : recommendation,
+    );
+    const unsupportedDosages = Array.from(
+      new Set(
+        [
+          answer,
+          ...(recommendations || []).map(
+            (recommendation) => recommendation.dose || '',
+          ),
+        ].flatMap(findUnsupported),
+      ),
+    );
+
+    const reviewed: GuardrailDecisionDto =
+      unsupportedDosages.length > 0
+        ? {
+            ...decision,
+            action:
+              decision.action === GuardrailAction.ALLOW
+                ? GuardrailAction.DISCLAIMER
+                : decision.action,
+            unsupportedDosages,
+          }
+        : decision;
+
+    if (reviewed.action !== GuardrailAction.DISCLAIMER) {
+      return {
+        answer,
+        decision: reviewed,
+        recommendations: reviewedRecommendations,
+      };
+    }
+
+    if (unsupportedDosages.length > 0) {
+      this.logger.warn(
+        `Answer states dosages not found in context: ${unsupportedDosages.join(', ')}`,
+      );
+    }
+
+    const messages = this.locales.getLocale(language, question).guardrails;
+    const notes =
+      unsupportedDosages.length > 0
+        ? `${messages.unsupportedDosage} ${messages.disclaimer}`
+        : messages.disclaimer;
+
+    return {
+      answer: `${answer}\n\n⚠️ ${notes}`,
+      decision: reviewed,
+      recommendations: reviewedRecommendations,
+    };
+  }
+
+  /**
+   * Normalized dosages in the text ("500-1000 мг" -> "500 mg", "1000 mg")
+   */
+  extractDosages(text: string): string[] {
+    return Array.from(text.matchAll(this.dosagePattern)).flatMap(
+      ([, from, to, rawUnit]) => {
+        const unit =
+          this.unitAliases[rawUnit.toLowerCase()] || rawUnit.toLowerCase();
+        return [from, to]
+          .filter((amount): amount is string => amount !== undefined)
+          .map((amount) => `${parseFloat(amount.replace(',', '.'))} ${unit}`);
+      },
+    );
+  }
+
+  private classify(question: string): GuardrailCategory {
+    const matches = (patterns: RegExp[]) =>
+      patterns.some((pattern) => pattern.test(question));
+
+    if (matches(this.selfHarmPatterns)) return GuardrailCategory.SELF_HARM;
+    if (matches(this.emergencyPatterns)) return GuardrailCategory.EMERGENCY;
+    if (
+      this.prescriptionDrugPattern.test(question) &&
+      matches(this.dosingPatterns)
+    ) {
+      return GuardrailCategory.PRESCRIPTION_DOSING;
+    }
+    if (matches(this.diagnosisPatterns)) return GuardrailCategory.DIAGNOSIS;
+    return GuardrailCategory.NONE;
+  }
+}
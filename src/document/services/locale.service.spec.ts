@@ -0,0 +1,59 @@
+import { ConfigService } from '@nestjs/config';
+import { LocaleService } from './locale.service';
+
+describe('LocaleService', () => {
+  const create = (config: Record<string, string> = {}) =>
+    new LocaleService(new ConfigService(config));
+
+  describe('detectLanguage', () => {
+    const service = create();
+
+    it.each([
+      ['en', 'How much zone 2 training does Peter do per week?'],
+      ['ru', 'Сколько часов в неделю нужно тренироваться?'],
+      ['uk', 'Скільки годин на тиждень потрібно тренуватися?'],
+      ['de', 'Wie viel Training in Zone 2 ist nötig?'],
+      ['de', 'Was ist die beste Zone 2 und wie oft?'],
+      ['es', '¿Cuánto entrenamiento de zona 2 necesito?'],
+      ['es', 'Que es el VO2 max para los atletas'],
+    ])('detects %s', (language, text) => {
+      expect(service.detectLanguage(text)).toBe(language);
+    });
+
+    it('reads Cyrillic text with Latin terms as Cyrillic', () => {
+      expect(service.detectLanguage('Что такое VO2 max и ApoB?')).toBe('ru');
+    });
+
+    it('returns unknown for scripts no locale is written in', () => {
+      expect(service.detectLanguage('Πόση προπόνηση χρειάζομαι;')).toBe(
+        'unknown',
+      );
+    });
+
+    it('returns undefined for text without letters', () => {
+      expect(service.detectLanguage('2 + 2?')).toBeUndefined();
+    });
+  });
+
+  describe('detect', () => {
+    it('detects locales added through SUPPORTED_LOCALES by their script', () => {
+      const service = create({ SUPPORTED_LOCALES: 'en,ru,el,ja' });
+
+      expect(service.detect('Πόση προπόνηση χρειάζομαι;')).toBe('el');
+      expect(service.detect('どのくらいトレーニングが必要ですか？')).toBe('ja');
+      expect(service.detect('Сколько нужно тренироваться?')).toBe('ru');
+    });
+
+    it('falls back to the default locale for unsupported languages', () => {
+      const service = create({
+        SUPPORTED_LOCALES: 'en,ru',
+        DEFAULT_LOCALE: 'ru',
+      });
+
+      expect(service.detect('Wie viel Training in Zone 2 ist nötig?')).toBe(
+        'ru',
+      );
+      expect(service.detect('Πόση προπόνηση χρειάζομαι;')).toBe('ru');
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AUTO_LANGUAGE,
+  AUTO_LANGUAGE_INSTRUCTIONS,
+  BUILTIN_LOCALES,
+  LanguageDetection,
+  LocaleDefinition,
+} from '../locales';
+
+// Scripts that Intl reports for writing systems mixing several Unicode scripts
+const COMPOSITE_SCRIPTS: Record<string, string> = {
+  Hans: 'Hani',
+  Hant: 'Hani',
+  Jpan: 'Hira',
+  Kore: 'Hang',
+};
+
+@Injectable()
+export class LocaleService {
+  private readonly logger = new Logger(LocaleService.name);
+
+  readonly supportedLocales: string[];
+  readonly defaultLocale: string;
+
+  private readonly displayNames = new Intl.DisplayNames(['en'], {
+    type: 'language',
+  });
+
+  /** Languages that can be detected: the built-in locales, then the other supported ones */
+  private readonly detection: Array<[string, LanguageDetection]>;
+  private readonly scriptPatterns = new Map<string, RegExp>();
+
+  constructor(private configService: ConfigService) {
+    this.supportedLocales = (
+      this.configService.get<string>('SUPPORTED_LOCALES') || 'en,ru,uk,de,es'
+    )
+      .split(',')
+      .map((code) => code.trim().toLowerCase())
+      .filter((code) => code.length > 0);
+
+    const defaultLocale = (
+      this.configService.get<string>('DEFAULT_LOCALE') || 'en'
+    ).toLowerCase();
+    this.defaultLocale = this.supportedLocales.includes(defaultLocale)
+      ? defaultLocale
+      : this.supportedLocales[0] || 'en';
+
+    this.detection = [
+      ...Object.entries(BUILTIN_LOCALES).map(
+        ([code, locale]): [string, LanguageDetection] => [
+          code,
+          locale.detection,
+        ],
+      ),
+      ...this.supportedLocales
+        .filter((code) => !BUILTIN_LOCALES[code])
+        .flatMap((code): Array<[string, LanguageDetection]> => {
+          const script = this.getScript(code);
+          return script ? [[code, { script }]] : [];
+        }),
+    ];
+  }
+
+  isSupported(code: string): boolean {
+    return this.supportedLocales.includes(code);
+  }
+
+  /**
+   * Normalize a requested language ("de-AT" -> "de"); unsupported languages fall back to auto
+   */
+  resolve(language?: string): string {
+    if (!language) {
+      return AUTO_LANGUAGE;
+    }
+
+    const code = language.toLowerCase().split(/[-_]/)[0];
+    if (code === AUTO_LANGUAGE || this.isSupported(code)) {
+      return code;
+    }
+
+    this.logger.debug(`Unsupported language "${language}", using auto`);
+    return AUTO_LANGUAGE;
+  }
+
+  /**
+   * Supported locale of the text, or the default locale if it is in another language
+   */
+  detect(text: string): string {
+    const detected = this.detectLanguage(text);
+    return detected && this.isSupported(detected)
+      ? detected
+      : this.defaultLocale;
+  }
+
+  /**
+   * Script and function-word heuristic over the locale registry. Returns undefined for
+   * text without letters and "unknown" for scripts no locale is written in.
+   */
+  detectLanguage(text: string): string | undefined {
+    const letters = text.match(/\p{L}/gu) || [];
+    if (letters.length === 0) {
+      return undefined;
+    }
+
+    const share = (script: string) =>
+      letters.filter((c) => this.getScriptPattern(script).test(c)).length /
+      letters.length;
+
+    // Latin terms are common in other scripts, so those win from 30% of the letters
+    const scripts = [...new Set(this.detection.map(([, d]) => d.script))];
+    let script: string | undefined;
+    let bestShare = 0.3;
+    for (const candidate of scripts.filter((s) => s !== 'Latn')) {
+      const candidateShare = share(candidate);
+      if (candidateShare > bestShare) {
+        script = candidate;
+        bestShare = candidateShare;
+      }
+    }
+    if (!script && scripts.includes('Latn') && share('Latn') > 0.5) {
+      script = 'Latn';
+    }
+    if (!script) {
+      return 'unknown';
+    }
+
+    const candidates = this.detection.filter(([, d]) => d.script === script);
+    const marked = candidates.find(([, d]) => d.letters?.test(text));
+    if (marked) {
+      return marked[0];
+    }
+
+    // Without distinctive letters, the language with the most function words wins
+    const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+    let best = (candidates.find(([, d]) => !d.letters) || candidates[0])[0];
+    let bestCount = 0;
+    for (const [code, { words: markers = [] }] of candidates) {
+      const count = words.filter((word) => markers.includes(word)).length;
+      if (count > bestCount) {
+        best = code;
+        bestCount = count;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * System prompt lines that set the answer language
+   */
+  getInstructions(language: string): string {
+    if (language === AUTO_LANGUAGE) {
+      return AUTO_LANGUAGE_INSTRUCTIONS;
+    }
+    return (
+      BUILTIN_LOCALES[language]?.instructions ||
+      `- Respond in ${this.getName(language)} language`
+    );
+  }
+
+  /**
+   * Localized messages for an answer: those of the requested locale, or of the question's
+   * language in auto mode, falling back to the default locale
+   */
+  getLocale(language: string, question: string): LocaleDefinition {
+    const locale =
+      language === AUTO_LANGUAGE ? this.detect(question) : language;
+    return (
+      BUILTIN_LOCALES[locale] ||
+      BUILTIN_LOCALES[this.defaultLocale] ||
+      BUILTIN_LOCALES.en
+    );
+  }
+
+  /**
+   * Localized reply for questions the knowledge base has no context for
+   */
+  getNoContextMessage(language: string, question: string): string {
+    return this.getLocale(language, question).noContextMessage;
+  }
+
+  /**
+   * English name of a language ("de" -> "German")
+   */
+  getName(code: string): string {
+    try {
+      return BUILTIN_LOCALES[code]?.name || this.displayNames.of(code) || code;
+    } catch {
+      return code;
+    }
+  }
+
+  /**
+   * Likely script of a language ("el" -> "Grek"), if the runtime can match it
+   */
+  private getScript(code: string): string | undefined {
+    try {
+      const script = new Intl.Locale(code).maximize().script || '';
+      const unicodeScript = COMPOSITE_SCRIPTS[script] || script;
+      this.getScriptPattern(unicodeScript);
+      return unicodeScript;
+    } catch {
+      this.logger.warn(`Cannot detect locale "${code}", no known script`);
+      return undefined;
+    }
+  }
+
+  private getScriptPattern(script: string): RegExp {
+    let pattern = this.scriptPatterns.get(script);
+    if (!pattern) {
+      pattern = new RegExp(`\\p{Script=${script}}`, 'u');
+      this.scriptPatterns.set(script, pattern);
+    }
+    return pattern;
+  }
+}
@@ -0,0 +1,74 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { LLM_PROVIDER, LlmProvider } from '../llm/llm-provider.interface';
+
+@Injectable()
+export class QueryExpansionService {
+  private readonly logger = new Logger(QueryExpansionService.name);
+
+  constructor(@Inject(LLM_PROVIDER) private llm: LlmProvider) {}
+
+  /**
+   * Generate alternative phrasings of the query for multi-query retrieval.
+   * Returns an empty list if expansion fails, so search can fall back to the original query.
+   */
+  async generateParaphrases(query: string, count: number): Promise<string[]> {
+    try {
+      const completion = await this.llm.complete({
+        tier: 'fast',
+        temperature: 0.7,
+        maxTokens: 60 * count,
+        messages: [
+          {
+            role: 'system',
+            content: `You rewrite search queries for a knowledge base about health, longevity, exercise, nutrition and sleep.
+Write ${count} different rephrasings of the user's query as full, specific questions. Expand abbreviations and add the likely topic when the query is terse.
+Keep the language of the original query. Output one rephrasing per line, without numbering or extra text.`,
+          },
+          { role: 'user', content: query },
+        ],
+      });
+
+      const normalizedQuery = query.trim().toLowerCase();
+      const paraphrases = completion.content
+        .split('\n')
+        .map((line) => line.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, '').trim())
+        .filter(
+          (line) => line.length > 0 && line.toLowerCase() !== normalizedQuery,
+        );
+
+      return Array.from(new Set(paraphrases)).slice(0, count);
+    } catch (error: any) {
+      this.logger.warn(`Query expansion failed: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Write a short hypothetical answer passage (HyDE) to embed instead of the bare query
+   */
+  async generateHypotheticalDocument(query: string): Promise<string | null> {
+    try {
+      const completion = await this.llm.complete({
+        tier: 'fast',
+        temperature: 0.3,
+        maxTokens: 200,
+        messages: [
+          {
+            role: 'system',
+            content: `Write a short passage (3-4 sentences) that could appear in a podcast transcript or article answering the user's question about health and longevity.
+Write in the language of the question. Output only the passage.`,
+          },
+          { role: 'user', content: query },
+        ],
+      });
+
+      const passage = completion.content.trim();
+      return passage.length > 0 ? passage : null;
+    } catch (error: any) {
+      this.logger.warn(
+        `Hypothetical document generation failed: ${error.message}`,
+      );
+      return null;
+    }
+  }
+}
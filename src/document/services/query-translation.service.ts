@@ -0,0 +1,95 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LLM_PROVIDER, LlmProvider } from '../llm/llm-provider.interface';
+import { LocaleService } from './locale.service';
+
+export interface NormalizedQuery {
+  /** Query to embed: the translation, or the original if no translation was needed or possible */
+  query: string;
+  /** Detected language of the original query (ISO 639-1), "unknown" for unsupported scripts */
+  language: string;
+  /** Translation into the corpus language, if one was made */
+  translatedQuery?: string;
+}
+
+@Injectable()
+export class QueryTranslationService {
+  private readonly logger = new Logger(QueryTranslationService.name);
+
+  /** Language of the documents (ISO 639-1), from CORPUS_LANGUAGE */
+  readonly corpusLanguage: string;
+
+  constructor(
+    @Inject(LLM_PROVIDER) private llm: LlmProvider,
+    private configService: ConfigService,
+    private localeService: LocaleService,
+  ) {
+    this.corpusLanguage =
+      this.configService.get<string>('CORPUS_LANGUAGE') || 'en';
+  }
+
+  /**
+   * Detect the query language and translate it into the corpus language if it differs.
+   * Falls back to the original query if translation fails.
+   */
+  async normalize(query: string): Promise<NormalizedQuery> {
+    const language = this.detectLanguage(query);
+    if (language === this.corpusLanguage) {
+      return { query, language };
+    }
+
+    const translatedQuery = await this.translate(query, language);
+    if (!translatedQuery) {
+      return { query, language };
+    }
+
+    this.logger.debug(
+      `Translated ${language} query "${query}" -> "${translatedQuery}"`,
+    );
+    return { query: translatedQuery, language, translatedQuery };
+  }
+
+  /**
+   * Language of the text from the locale registry; text without letters counts as the
+   * corpus language
+   */
+  detectLanguage(text: string): string {
+    return this.localeService.detectLanguage(text) ?? this.corpusLanguage;
+  }
+
+  private async translate(
+    query: string,
+    language: string,
+  ): Promise<string | null> {
+    const target = this.localeService.getName(this.corpusLanguage);
+    const source =
+      language === 'unknown'
+        ? 'the original language'
+        : this.localeService.getName(language);
+
+    try {
+      const completion = await this.llm.complete({
+        tier: 'fast',
+        temperature: 0,
+        maxTokens: 150,
+        messages: [
+          {
+            role: 'system',
+            content: `Translate the user's search query from ${source} into ${target} for searching podcast transcripts and articles about health and longevity.
+- Use the terminology the transcripts would use (e.g. "зона 2" -> "zone 2", "аутофагия" -> "autophagy")
+- Keep names, numbers, units and drug names exact
+- Output only the translated query, without quotes or explanations`,
+          },
+          { role: 'user', content: query },
+        ],
+      });
+
+      const translated = completion.content.trim();
+      return translated.length > 0 ? translated : null;
+    } catch (error: any) {
+      // Searching with the untranslated query still finds multilingual matches
+      this.logger.warn(`Query translation failed: ${error.message}`);
+      return null;
+    }
+  }
+}
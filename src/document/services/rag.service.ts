@@ -1,99 +1,392 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { SearchService } from './search.service';
 import { EmbeddingService } from './embedding.service';
+import { ConversationService } from './conversation.service';
+import { CitationService } from './citation.service';
+import { FaithfulnessService } from './faithfulness.service';
+import { ContextBuilderService } from './context-builder.service';
+import { ConfidenceService, ConfidenceSignals } from './confidence.service';
+import { AnswerCacheKey, AnswerCacheService } from './answer-cache.service';
+import { FeedbackService } from './feedback.service';
+import { StructuredAnswerService } from './structured-answer.service';
+import { SuggestedQuestionsService } from './suggested-questions.service';
+import { ResearchAgentService } from './research-agent.service';
+import {
+  ExtractiveAnswer,
+  ExtractiveAnswerService,
+} from './extractive-answer.service';
+import { LocaleService } from './locale.service';
+import { GuardrailService, QuestionAssessment } from './guardrail.service';
+import { PromptSafetyService } from './prompt-safety.service';
+import {
+  PromptTemplateService,
+  ResolvedPrompt,
+} from '../../prompt/prompt-template.service';
+import { MODE_INSTRUCTIONS } from '../../prompt/prompt.defaults';
 import { 
   RagQueryDto, 
   RagResponseDto, 
   ContextChunk, 
   ResponseMode, 
-  ResponseLanguage,
-  RagAnalyticsDto
+  RagAnalyticsDto,
+  RagStreamEvent,
+  StructuredAnswerDto,
+  AnswerFormat,
+  GuardrailCategory,
+  GuardrailDecisionDto,
+  UnsupportedClaimPolicy,
+  VerificationMethod,
+  ExtractiveFallbackReason,
+  ResearchStepDto,
 } from '../dto/rag.dto';
-import OpenAI from 'openai';
+import { RetrievalMode } from '../dto/search.dto';
+import { ConversationTurnDto } from '../dto/conversation.dto';
+import {
+  LLM_PROVIDER,
+  LlmMessage,
+  LlmProvider,
+} from '../llm/llm-provider.interface';
+import { CircuitOpenError } from '../llm/resilient-openai.client';
+import { RERANKER, Reranker } from '../rerank/reranker.interface';
+import { AUTO_LANGUAGE } from '../locales';
+import { UsageContext, UsageService } from '../../usage/usage.service';
+
+interface GeneratedAnswer {
+  answer: string;
+  model: string;
+  structured?: StructuredAnswerDto;
+  /** Research mode: the retrieved context extended with the chunks found with tools */
+  context?: ContextChunk[];
+  researchTrace?: ResearchStepDto[];
+}
 
 @Injectable()
 export class RagService {
   private readonly logger = new Logger(RagService.name);
-  private openai: OpenAI;
+
+  // Prior turns included in the prompt and how much of each answer to keep
+  private readonly historyTurns = 4;
+  private readonly historyAnswerMaxChars = 1500;
+
+  // Vector search candidates fetched for the reranker to choose from
+  private readonly rerankCandidates = 50;
+
+  // Input token budget when the query doesn't set one, and the chunk cap it packs from
+  private readonly defaultContextTokenBudget = 6000;
+  private readonly budgetedMaxChunks = 20;
+
+  // Share of the input budget prior turns may take, so they can't crowd out the context
+  private readonly historyBudgetShare = 0.3;
+
+  // Answers below this confidence are not worth serving again from the cache
+  private readonly cacheMinConfidence = 0.5;
+
+  // JSON answers repeat field names and source lists, so they need more room than prose
+  private readonly structuredMaxTokens = 1200;
 
   constructor(
     private prisma: PrismaService,
     private searchService: SearchService,
     private embeddingService: EmbeddingService,
-  ) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
-    }
-
-    this.openai = new OpenAI({
-      apiKey: apiKey,
-    });
-  }
+    private conversationService: ConversationService,
+    private citationService: CitationService,
+    private faithfulnessService: FaithfulnessService,
+    private contextBuilder: ContextBuilderService,
+    private confidenceService: ConfidenceService,
+    private answerCache: AnswerCacheService,
+    private promptTemplates: PromptTemplateService,
+    private structuredAnswers: StructuredAnswerService,
+    private extractiveAnswers: ExtractiveAnswerService,
+    private suggestedQuestions: SuggestedQuestionsService,
+    private researchAgent: ResearchAgentService,
+    private feedback: FeedbackService,
+    private locales: LocaleService,
+    private guardrails: GuardrailService,
+    private promptSafety: PromptSafetyService,
+    private usage: UsageService,
+    @Inject(LLM_PROVIDER) private llm: LlmProvider,
+    @Inject(RERANKER) private reranker: Reranker | null,
+  ) {}
 
   /**
    * Generate a comprehensive answer using RAG pipeline
    */
   async generateAnswer(query: RagQueryDto): Promise<RagResponseDto> {
-    const startTime = Date.now();
     const responseId = this.generateResponseId();
+    return this.usage.run(this.getUsageContext(query, responseId), () =>
+      this.answerQuestion(query, responseId),
+    );
+  }
+
+  /**
+   * Stream an answer using RAG pipeline: context first, then raw token deltas, then the
+   * post-processed answer (markers and stripped claims removed) with final stats
+   */
+  streamAnswer(query: RagQueryDto): AsyncGenerator<RagStreamEvent> {
+    const responseId = this.generateResponseId();
+    return this.usage.runGenerator(
+      this.getUsageContext(query, responseId),
+      () => this.streamAnswerEvents(query, responseId),
+    );
+  }
+
+  private async answerQuestion(
+    query: RagQueryDto,
+    responseId: string,
+  ): Promise<RagResponseDto> {
+    const startTime = Date.now();
+    query = { ...query, language: this.locales.resolve(query.language) };
     
     try {
       this.logger.log(`RAG query: "${query.question}" (${responseId})`);
 
-      // Step 1: Search for relevant context
-      const searchStartTime = Date.now();
-      const searchResults = await this.searchService.searchDocuments({
-        query: query.question,
-        limit: query.maxContextChunks || 5,
-        threshold: query.similarityThreshold || 0.3,
-      });
-      const searchTime = Date.now() - searchStartTime;
+      // Users over their daily budget get quotes from the sources instead of a generated answer
+      let fallbackReason = await this.getFallbackReason(query);
+      let extractive =
+        query.responseMode === ResponseMode.EXTRACTIVE || !!fallbackReason;
+
+      // Step 0: Load conversation history and rewrite follow-up questions
+      const { history, standaloneQuestion } = await this.resolveConversation(
+        query,
+        !extractive,
+      );
 
-      if (searchResults.results.length === 0) {
-        return this.createNoContextResponse(query, responseId, searchTime);
+      // Emergencies, self-harm and personal prescription dosing get a fixed reply instead of an answer
+      const assessment = this.assessQuestion(query, standaloneQuestion);
+      if (assessment.reply) {
+        const guarded = {
+          ...this.createGuardrailResponse(
+            query,
+            responseId,
+            assessment,
+            Date.now() - startTime,
+          ),
+          standaloneQuestion,
+        };
+        await this.logRagInteraction(query, guarded);
+        await this.recordConversationTurn(query, guarded);
+        return guarded;
       }
 
-      // Step 2: Prepare context chunks
-      const context: ContextChunk[] = searchResults.results.map(result => ({
-        content: result.content,
-        similarity: result.similarity,
-        documentFilename: result.documentFilename,
-        chunkIndex: result.chunkIndex,
-        documentId: result.documentId,
-        chunkId: result.chunkId,
-      }));
-
-      // Step 3: Generate response using LLM
+      const prompt = await this.resolvePrompt(query, responseId);
+
+      // Serve repeated questions from the semantic answer cache. Answers that
+      // depend on conversation history are neither served nor stored.
+      const cacheKey =
+        this.answerCache.enabled &&
+        query.useCache !== false &&
+        query.responseMode !== ResponseMode.EXTRACTIVE &&
+        history.length === 0
+          ? this.getCacheKey(query, prompt)
+          : null;
+      const questionEmbedding = cacheKey
+        ? await this.embeddingService.generateEmbedding(
+            standaloneQuestion || query.question,
+          )
+        : null;
+
+      if (cacheKey && questionEmbedding) {
+        const cached = await this.answerCache.lookup(
+          questionEmbedding,
+          cacheKey,
+        );
+        if (cached) {
+          const response: RagResponseDto = {
+            ...cached.response,
+            question: query.question,
+            searchTime: 0,
+            generationTime: 0,
+            totalTime: Date.now() - startTime,
+            timestamp: new Date().toISOString(),
+            responseId,
+            conversationId: query.conversationId,
+            standaloneQuestion,
+            cached: true,
+            cachedQuestion: cached.question,
+          };
+
+          await this.logRagInteraction(query, response);
+          await this.recordConversationTurn(query, response);
+
+          this.logger.log(
+            `RAG response served from cache (${responseId}): similarity ${cached.similarity.toFixed(3)} to "${cached.question}"`,
+          );
+          return response;
+        }
+      }
+
+      // Step 1-2: Search for relevant context and prepare context chunks
+      const {
+        context,
+        history: promptHistory,
+        searchTime,
+        queryLanguage,
+        translatedQuery,
+      } = await this.retrieveContext(
+        query,
+        standaloneQuestion || query.question,
+        history,
+        prompt,
+        extractive,
+      );
+
+      if (context.length === 0) {
+        const noContext = {
+          ...this.createNoContextResponse(query, responseId, searchTime),
+          standaloneQuestion,
+        };
+        await this.recordConversationTurn(query, noContext);
+        return noContext;
+      }
+
+      // Step 3: Generate response using LLM, falling back to quotes if it fails
       const generationStartTime = Date.now();
-      const answer = await this.generateLLMResponse(query, context);
+      let generated: GeneratedAnswer | undefined;
+      if (!extractive) {
+        try {
+          generated = await this.generateLLMResponse(
+            query,
+            prompt,
+            context,
+            promptHistory,
+          );
+        } catch (error: any) {
+          this.logger.warn(
+            `Generation failed (${responseId}), answering with quotes: ${error.message}`,
+          );
+          fallbackReason = ExtractiveFallbackReason.GENERATION_FAILED;
+          extractive = true;
+        }
+      }
       const generationTime = Date.now() - generationStartTime;
 
-      // Step 4: Calculate confidence and extract sources
-      const confidence = this.calculateConfidence(searchResults.results);
-      const sources = this.extractUniqueSources(context);
+      // Research answers also cite the chunks found with tools, numbered after the retrieved ones
+      const answerContext = generated?.context || context;
+
+      // Instructions planted in documents or the question are neutralized in the prompt
+      const injectionFindings = this.promptSafety.inspect(
+        query.question,
+        answerContext,
+      );
+
+      // Step 4: Map answer sentences to supporting chunks and verify claims against the context,
+      // and suggest follow-up questions meanwhile. Quotes are verbatim from the context, so
+      // they are grounded by construction.
+      let postProcessed: Pick<
+        RagResponseDto,
+        'answer' | 'citations' | 'claims' | 'groundedness'
+      >;
+      let suggestedQuestions: string[] | undefined;
+      if (generated) {
+        [postProcessed, suggestedQuestions] = await Promise.all([
+          this.postProcessAnswer(query, generated.answer, answerContext),
+          this.suggestQuestions(query, generated.answer, answerContext),
+        ]);
+      } else {
+        postProcessed = {
+          ...this.buildExtractiveAnswer(
+            query,
+            standaloneQuestion || query.question,
+            answerContext,
+            fallbackReason,
+          ),
+          groundedness: 1,
+        };
+      }
+
+      const {
+        answer: verifiedAnswer,
+        citations,
+        claims,
+        groundedness,
+      } = postProcessed;
+
+      // Step 5: Calculate confidence and extract sources
+      const confidenceSignals = this.confidenceService.collectSignals(
+        answerContext,
+        verifiedAnswer,
+        groundedness,
+      );
+      const confidence =
+        this.confidenceService.calculateConfidence(confidenceSignals);
+      const sources = this.extractUniqueSources(answerContext);
+
+      // Check dosages against the context and add the disclaimer where needed
+      const {
+        answer,
+        decision: guardrail,
+        recommendations,
+      } = this.guardrails.reviewAnswer(
+        verifiedAnswer,
+        answerContext,
+        assessment.decision,
+        query.language || AUTO_LANGUAGE,
+        query.question,
+        generated?.structured?.recommendations,
+      );
 
       const totalTime = Date.now() - startTime;
 
       const response: RagResponseDto = {
         answer,
         question: query.question,
-        context,
-        contextCount: context.length,
+        context: answerContext,
+        contextCount: answerContext.length,
         searchTime,
         generationTime,
         totalTime,
         confidence,
         sources,
-        responseMode: query.responseMode || ResponseMode.DETAILED,
-        language: query.language || ResponseLanguage.AUTO,
+        citations,
+        groundedness,
+        claims,
+        responseMode: extractive
+          ? ResponseMode.EXTRACTIVE
+          : query.responseMode || ResponseMode.DETAILED,
+        fallbackReason,
+        language: query.language || AUTO_LANGUAGE,
         timestamp: new Date().toISOString(),
         responseId,
+        conversationId: query.conversationId,
+        standaloneQuestion,
+        queryLanguage,
+        translatedQuery,
+        model: generated?.model,
+        promptVersion: generated && prompt.version,
+        // The summary carries the cleaned (and possibly stripped) answer text
+        structured: generated?.structured && {
+          ...generated.structured,
+          summary: answer,
+          recommendations:
+            recommendations || generated.structured.recommendations,
+        },
+        guardrail,
+        injectionNeutralized: injectionFindings.length > 0,
+        injectionFindings:
+          injectionFindings.length > 0 ? injectionFindings : undefined,
+        suggestedQuestions,
+        researchTrace: generated?.researchTrace,
       };
 
-      // Step 5: Log the interaction
-      await this.logRagInteraction(query, response);
+      // Step 6: Log the interaction, extend the conversation and cache the answer.
+      // Fallback quotes are not what the requested mode would answer, so they are not cached.
+      await this.logRagInteraction(query, response, confidenceSignals);
+      await this.recordConversationTurn(query, response);
+
+      if (
+        cacheKey &&
+        questionEmbedding &&
+        !fallbackReason &&
+        confidence >= this.cacheMinConfidence
+      ) {
+        await this.answerCache.store(
+          standaloneQuestion || query.question,
+          questionEmbedding,
+          cacheKey,
+          response,
+        );
+      }
 
       this.logger.log(
         `RAG response generated (${responseId}): ${totalTime}ms total, confidence: ${confidence.toFixed(2)}`
@@ -101,109 +394,787 @@ export class RagService {
 
       return response;
     } catch (error: any) {
+      // Unknown conversations are the client's error, not a generation failure
+      if (
+        error instanceof CircuitOpenError ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+
       this.logger.error(`RAG generation failed (${responseId}): ${error.message}`);
       throw new Error(`Answer generation failed: ${error.message}`);
     }
   }
 
+  private async *streamAnswerEvents(
+    query: RagQueryDto,
+    responseId: string,
+  ): AsyncGenerator<RagStreamEvent> {
+    const startTime = Date.now();
+    query = { ...query, language: this.locales.resolve(query.language) };
+
+    try {
+      this.logger.log(`RAG stream query: "${query.question}" (${responseId})`);
+
+      let fallbackReason = await this.getFallbackReason(query);
+      let extractive =
+        query.responseMode === ResponseMode.EXTRACTIVE || !!fallbackReason;
+
+      const { history, standaloneQuestion } = await this.resolveConversation(
+        query,
+        !extractive,
+      );
+
+      const assessment = this.assessQuestion(query, standaloneQuestion);
+      if (assessment.reply) {
+        const guarded = {
+          ...this.createGuardrailResponse(
+            query,
+            responseId,
+            assessment,
+            Date.now() - startTime,
+          ),
+          standaloneQuestion,
+        };
+        await this.logRagInteraction(query, guarded);
+        await this.recordConversationTurn(query, guarded);
+
+        yield {
+          event: 'context',
+          data: {
+            responseId,
+            context: [],
+            contextCount: 0,
+            sources: [],
+            searchTime: 0,
+            conversationId: query.conversationId,
+            standaloneQuestion,
+          },
+        };
+        yield { event: 'token', data: { delta: guarded.answer } };
+        yield {
+          event: 'done',
+          data: {
+            responseId,
+            answer: guarded.answer,
+            citations: [],
+            confidence: 0,
+            searchTime: 0,
+            generationTime: 0,
+            totalTime: guarded.totalTime,
+            guardrail: guarded.guardrail,
+          },
+        };
+        return;
+      }
+
+      const prompt = await this.resolvePrompt(query, responseId);
+      const {
+        context,
+        history: promptHistory,
+        searchTime,
+        queryLanguage,
+        translatedQuery,
+      } = await this.retrieveContext(
+        query,
+        standaloneQuestion || query.question,
+        history,
+        prompt,
+        extractive,
+      );
+      const sources = this.extractUniqueSources(context);
+
+      yield {
+        event: 'context',
+        data: {
+          responseId,
+          context,
+          contextCount: context.length,
+          sources,
+          searchTime,
+          conversationId: query.conversationId,
+          standaloneQuestion,
+        },
+      };
+
+      if (context.length === 0) {
+        const noContext = {
+          ...this.createNoContextResponse(query, responseId, searchTime),
+          standaloneQuestion,
+        };
+        await this.recordConversationTurn(query, noContext);
+        yield { event: 'token', data: { delta: noContext.answer } };
+        yield {
+          event: 'done',
+          data: {
+            responseId,
+            answer: noContext.answer,
+            citations: [],
+            confidence: 0,
+            searchTime,
+            generationTime: 0,
+            totalTime: Date.now() - startTime,
+          },
+        };
+        return;
+      }
+
+      const injectionFindings = this.promptSafety.inspect(
+        query.question,
+        context,
+      );
+
+      const generationStartTime = Date.now();
+      let rawAnswer = '';
+      if (!extractive) {
+        try {
+          for await (const delta of this.streamLLMResponse(
+            query,
+            prompt,
+            context,
+            promptHistory,
+          )) {
+            rawAnswer += delta;
+            yield { event: 'token', data: { delta } };
+          }
+        } catch (error: any) {
+          // Streamed text cannot be taken back, so only a failure before the first token falls back
+          if (rawAnswer) {
+            throw error;
+          }
+          this.logger.warn(
+            `Generation failed (${responseId}), answering with quotes: ${error.message}`,
+          );
+          fallbackReason = ExtractiveFallbackReason.GENERATION_FAILED;
+          extractive = true;
+        }
+      }
+      const generationTime = Date.now() - generationStartTime;
+
+      let postProcessed: Pick<
+        RagResponseDto,
+        'answer' | 'citations' | 'claims' | 'groundedness'
+      >;
+      let suggestedQuestions: string[] | undefined;
+      if (extractive) {
+        postProcessed = {
+          ...this.buildExtractiveAnswer(
+            query,
+            standaloneQuestion || query.question,
+            context,
+            fallbackReason,
+          ),
+          groundedness: 1,
+        };
+        yield { event: 'token', data: { delta: postProcessed.answer } };
+      } else {
+        [postProcessed, suggestedQuestions] = await Promise.all([
+          this.postProcessAnswer(query, rawAnswer, context),
+          this.suggestQuestions(query, rawAnswer, context),
+        ]);
+      }
+
+      const {
+        answer: verifiedAnswer,
+        citations,
+        claims,
+        groundedness,
+      } = postProcessed;
+
+      const confidenceSignals = this.confidenceService.collectSignals(
+        context,
+        verifiedAnswer,
+        groundedness,
+      );
+      const confidence =
+        this.confidenceService.calculateConfidence(confidenceSignals);
+
+      const { answer, decision: guardrail } = this.guardrails.reviewAnswer(
+        verifiedAnswer,
+        context,
+        assessment.decision,
+        query.language || AUTO_LANGUAGE,
+        query.question,
+      );
+      if (answer !== verifiedAnswer) {
+        // The disclaimer is appended after the streamed text
+        yield {
+          event: 'token',
+          data: { delta: answer.substring(verifiedAnswer.length) },
+        };
+      }
+      const totalTime = Date.now() - startTime;
+
+      const response: RagResponseDto = {
+        answer,
+        question: query.question,
+        context,
+        contextCount: context.length,
+        searchTime,
+        generationTime,
+        totalTime,
+        confidence,
+        sources,
+        citations,
+        groundedness,
+        claims,
+        responseMode: extractive
+          ? ResponseMode.EXTRACTIVE
+          : query.responseMode || ResponseMode.DETAILED,
+        fallbackReason,
+        language: query.language || AUTO_LANGUAGE,
+        timestamp: new Date().toISOString(),
+        responseId,
+        conversationId: query.conversationId,
+        standaloneQuestion,
+        queryLanguage,
+        translatedQuery,
+        model: extractive ? undefined : this.llm.model,
+        promptVersion: extractive ? undefined : prompt.version,
+        guardrail,
+        injectionNeutralized: injectionFindings.length > 0,
+        injectionFindings:
+          injectionFindings.length > 0 ? injectionFindings : undefined,
+        suggestedQuestions,
+      };
+
+      await this.logRagInteraction(query, response, confidenceSignals);
+      await this.recordConversationTurn(query, response);
+
+      this.logger.log(
+        `RAG stream completed (${responseId}): ${totalTime}ms total, confidence: ${confidence.toFixed(2)}`,
+      );
+
+      yield {
+        event: 'done',
+        data: {
+          responseId,
+          answer,
+          citations,
+          groundedness,
+          claims,
+          confidence,
+          searchTime,
+          generationTime,
+          totalTime,
+          promptVersion: response.promptVersion,
+          guardrail,
+          injectionNeutralized: injectionFindings.length > 0,
+          fallbackReason,
+          suggestedQuestions,
+        },
+      };
+    } catch (error: any) {
+      // Unknown conversations are the client's error, not a generation failure
+      if (
+        error instanceof CircuitOpenError ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+
+      this.logger.error(`RAG stream failed (${responseId}): ${error.message}`);
+      throw new Error(`Answer generation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Search for relevant context and convert results into context chunks.
+   * With a reranker configured, over-fetches candidates and keeps the best reranked ones,
+   * then stitches neighboring chunks and packs the passages into the input token budget.
+   * For extractive answers the steps that call the chat model are skipped.
+   */
+  private async retrieveContext(
+    query: RagQueryDto,
+    searchQuery: string,
+    history: ConversationTurnDto[],
+    prompt: ResolvedPrompt,
+    extractive = false,
+  ): Promise<{
+    context: ContextChunk[];
+    /** The prior turns that fit next to the context, for the generation prompt */
+    history: ConversationTurnDto[];
+    searchTime: number;
+    queryLanguage?: string;
+    translatedQuery?: string;
+  }> {
+    const searchStartTime = Date.now();
+    const maxContextChunks =
+      query.maxContextChunks ||
+      (query.contextTokenBudget ? this.budgetedMaxChunks : 5);
+    const reranker =
+      extractive && this.reranker?.usesLlm ? null : this.reranker;
+    const searchResponse = await this.searchService.searchDocuments(
+      {
+        query: searchQuery,
+        limit: reranker
+          ? Math.max(this.rerankCandidates, maxContextChunks)
+          : maxContextChunks,
+        threshold: query.similarityThreshold || 0.3,
+        retrievalMode: extractive ? RetrievalMode.SINGLE : query.retrievalMode,
+        hyde: extractive ? false : query.hyde,
+        translateQuery: !extractive,
+      },
+      { log: !this.usage.isEvaluation() },
+    );
+
+    const candidates: ContextChunk[] = searchResponse.results.map((result) => ({
+      content: result.content,
+      similarity: result.similarity,
+      documentFilename: result.documentFilename,
+      chunkIndex: result.chunkIndex,
+      documentId: result.documentId,
+      chunkId: result.chunkId,
+      startPosition: result.startPosition,
+      endPosition: result.endPosition,
+    }));
+
+    // Candidates are in the corpus language, so rerank against the translated query
+    const ranked = await this.rerankContext(
+      reranker,
+      searchResponse.translatedQuery || searchQuery,
+      candidates,
+      maxContextChunks,
+    );
+
+    // Merge adjacent chunks into contiguous passages without the chunking overlap
+    const passages = await this.contextBuilder.stitchNeighbors(
+      ranked,
+      query.neighborChunks || 0,
+    );
+
+    // Prior turns get a share of the budget, oldest dropped first; then everything
+    // except the context chunks counts against the budget
+    const budget = query.contextTokenBudget || this.defaultContextTokenBudget;
+    const fittedHistory = this.contextBuilder.fitHistory(
+      history,
+      Math.floor(budget * this.historyBudgetShare),
+      (turn) => this.buildHistoryMessages([turn]),
+    );
+    const { context } = this.contextBuilder.packContext(
+      passages,
+      this.buildMessages(query, prompt, [], fittedHistory),
+      budget,
+      (chunk, index) => this.formatContextChunk(chunk, index),
+    );
+    const searchTime = Date.now() - searchStartTime;
+
+    return {
+      // Relevance decides what gets into a timeline, chronology decides its order
+      context:
+        query.responseMode === ResponseMode.TIMELINE
+          ? this.orderByEpisode(context)
+          : context,
+      history: fittedHistory,
+      searchTime,
+      queryLanguage: searchResponse.queryLanguage,
+      translatedQuery: searchResponse.translatedQuery,
+    };
+  }
+
   /**
-   * Generate LLM response using OpenAI
+   * Reorder candidates by reranker score and trim to the requested number of chunks.
+   * Falls back to vector order if reranking is disabled or fails.
    */
-  private async generateLLMResponse(query: RagQueryDto, context: ContextChunk[]): Promise<string> {
-    const systemPrompt = this.buildSystemPrompt(query.responseMode, query.language);
-    const userPrompt = this.buildUserPrompt(query.question, context);
-
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
+  private async rerankContext(
+    reranker: Reranker | null,
+    question: string,
+    candidates: ContextChunk[],
+    limit: number,
+  ): Promise<ContextChunk[]> {
+    if (!reranker || candidates.length === 0) {
+      return candidates.slice(0, limit);
+    }
+
+    try {
+      const scores = await reranker.score(question, candidates);
+      if (scores.length === 0) {
+        return candidates.slice(0, limit);
+      }
+
+      const scoreByIndex = new Map(
+        scores.map((score) => [score.index, score.score]),
+      );
+
+      // Unscored candidates sink to the bottom; the stable sort keeps ties in vector order
+      const reranked = candidates
+        .map((chunk, index) => {
+          const score = scoreByIndex.get(index);
+          return {
+            ...chunk,
+            retrievalRank: index + 1,
+            rerankScore:
+              score === undefined ? undefined : Math.round(score * 1000) / 1000,
+          };
+        })
+        .sort((a, b) => (b.rerankScore ?? -1) - (a.rerankScore ?? -1))
+        .slice(0, limit);
+
+      this.logger.debug(
+        `Reranked ${candidates.length} candidates with ${reranker.name}, kept ranks: ${reranked.map((chunk) => chunk.retrievalRank).join(', ')}`,
+      );
+
+      return reranked;
+    } catch (error: any) {
+      this.logger.warn(
+        `Reranking failed, using vector search order: ${error.message}`,
+      );
+      return candidates.slice(0, limit);
+    }
+  }
+
+  /**
+   * Generate LLM response using the configured provider. For JSON answers the
+   * summary is returned as the answer text for citation and verification. In
+   * research mode the model searches further with tools first; the context it
+   * found is returned with the answer.
+   */
+  private async generateLLMResponse(
+    query: RagQueryDto,
+    prompt: ResolvedPrompt,
+    context: ContextChunk[],
+    history: ConversationTurnDto[],
+  ): Promise<GeneratedAnswer> {
+    if (query.responseMode === ResponseMode.RESEARCH) {
+      const research = await this.researchAgent.research(
+        this.buildMessages(query, prompt, context, history),
+        context,
+        {
+          maxSteps: query.maxResearchSteps || 6,
+          maxTokens: this.getMaxTokensForMode(query.responseMode),
+        },
+      );
+      return {
+        answer: research.answer || 'Unable to generate response',
+        model: research.model,
+        context: research.context,
+        researchTrace: research.trace,
+      };
+    }
+
+    if (query.format === AnswerFormat.JSON) {
+      const { structured, model } = await this.structuredAnswers.generate(
+        this.buildMessages(query, prompt, context, history),
+        context,
+        Math.max(
+          this.getMaxTokensForMode(query.responseMode),
+          this.structuredMaxTokens,
+        ),
+      );
+      return { answer: structured.summary, model, structured };
+    }
+
+    const completion = await this.llm.complete({
+      messages: this.buildMessages(query, prompt, context, history),
       temperature: 0.1, // Low temperature for consistent, factual responses
-      max_tokens: this.getMaxTokensForMode(query.responseMode),
+      maxTokens: this.getMaxTokensForMode(query.responseMode),
+    });
+
+    return {
+      answer: completion.content || 'Unable to generate response',
+      model: completion.model,
+    };
+  }
+
+  /**
+   * Stream LLM response token deltas using the configured provider
+   */
+  private streamLLMResponse(
+    query: RagQueryDto,
+    prompt: ResolvedPrompt,
+    context: ContextChunk[],
+    history: ConversationTurnDto[],
+  ): AsyncIterable<string> {
+    return this.llm.stream({
+      messages: this.buildMessages(query, prompt, context, history),
+      temperature: 0.1,
+      maxTokens: this.getMaxTokensForMode(query.responseMode),
     });
+  }
+
+  /**
+   * Quote the context sentences that best match the question instead of generating,
+   * introduced by why the answer is extractive
+   */
+  private buildExtractiveAnswer(
+    query: RagQueryDto,
+    question: string,
+    context: ContextChunk[],
+    fallbackReason?: ExtractiveFallbackReason,
+  ): ExtractiveAnswer {
+    const messages = this.locales.getLocale(
+      query.language || AUTO_LANGUAGE,
+      query.question,
+    ).extractive;
+    const intro =
+      fallbackReason === ExtractiveFallbackReason.BUDGET_EXCEEDED
+        ? messages.budgetExceeded
+        : fallbackReason === ExtractiveFallbackReason.GENERATION_FAILED
+          ? messages.generationFailed
+          : messages.intro;
+
+    return this.extractiveAnswers.buildAnswer(question, context, intro);
+  }
 
-    if (!response.choices || response.choices.length === 0) {
-      throw new Error('No response generated from OpenAI');
+  /**
+   * Follow-up questions the knowledge base can answer, unless the query opts out
+   */
+  private async suggestQuestions(
+    query: RagQueryDto,
+    answer: string,
+    context: ContextChunk[],
+  ): Promise<string[] | undefined> {
+    if (query.suggestQuestions === false) {
+      return undefined;
     }
 
-    return response.choices[0].message?.content || 'Unable to generate response';
+    const suggestions = await this.suggestedQuestions.suggest(
+      query.question,
+      answer,
+      context,
+      this.locales.getInstructions(query.language || AUTO_LANGUAGE),
+    );
+    return suggestions.length > 0 ? suggestions : undefined;
   }
 
   /**
-   * Build system prompt based on response mode and language
+   * Extract citations from the raw LLM answer and verify its claims against the context
    */
-  private buildSystemPrompt(mode?: ResponseMode, language?: ResponseLanguage): string {
-    let basePrompt = `You are a knowledgeable health and longevity expert assistant based on Peter Attia's research and content. Your role is to provide accurate, evidence-based answers using only the provided context.
-
-CRITICAL INSTRUCTIONS:
-- Use ONLY the information provided in the context chunks
-- Include direct quotes from Peter Attia when they support your answer (use quotation marks)
-- DO NOT include [Source X] references in your response text - sources will be listed separately
-- When possible, include specific numbers, measurements, or recommendations mentioned
-- If the context doesn't contain enough information to answer the question, say so clearly
-- Be precise and avoid speculation
-- Maintain scientific accuracy and nuance
-- Prioritize Peter Attia's direct statements and recommendations
-- Focus on providing actionable insights and specific guidance`;
-
-    // Add response mode specific instructions
-    switch (mode) {
-      case ResponseMode.CONCISE:
-        basePrompt += `\n- Provide concise, direct answers (2-3 sentences maximum)
-- Focus on the most important points only`;
-        break;
-      case ResponseMode.DETAILED:
-        basePrompt += `\n- Provide comprehensive, detailed explanations
-- Include relevant background information and context
-- Explain mechanisms and reasoning when available`;
-        break;
-      case ResponseMode.BULLET_POINTS:
-        basePrompt += `\n- Format your response as clear bullet points
-- Each point should be concise but informative
-- Use bullet points for main ideas and sub-points for details`;
-        break;
-      case ResponseMode.ACADEMIC:
-        basePrompt += `\n- Use academic tone and precise terminology
-- Include specific references to studies or data when mentioned
-- Maintain formal, scholarly language`;
-        break;
+  private async postProcessAnswer(
+    query: RagQueryDto,
+    rawAnswer: string,
+    context: ContextChunk[],
+  ): Promise<
+    Pick<RagResponseDto, 'answer' | 'citations' | 'claims' | 'groundedness'>
+  > {
+    const { answer, citations } = this.citationService.extractCitations(
+      rawAnswer,
+      context,
+    );
+
+    const method = query.verification || VerificationMethod.LEXICAL;
+    if (method === VerificationMethod.NONE) {
+      return { answer, citations };
     }
 
-    // Add language instructions
-    if (language === ResponseLanguage.RUSSIAN) {
-      basePrompt += `\n- Respond in Russian language
-- Use appropriate medical and scientific terminology in Russian`;
-    } else if (language === ResponseLanguage.ENGLISH) {
-      basePrompt += `\n- Respond in English language`;
-    } else {
-      basePrompt += `\n- Detect the language of the question and respond in the same language`;
+    const { claims, groundedness } = await this.faithfulnessService.verify(
+      answer,
+      context,
+      method,
+      citations,
+    );
+
+    if (query.unsupportedClaims === UnsupportedClaimPolicy.STRIP) {
+      const stripped = this.faithfulnessService.stripUnsupportedClaims(
+        answer,
+        claims,
+        citations,
+      );
+      return { ...stripped, claims, groundedness };
     }
 
-    return basePrompt;
+    return { answer, citations, claims, groundedness };
   }
 
   /**
-   * Build user prompt with question and context
+   * Build chat messages for the LLM call, including prior conversation turns
    */
-  private buildUserPrompt(question: string, context: ContextChunk[]): string {
-    let prompt = `Question: ${question}\n\nContext from Peter Attia's content:\n\n`;
-
-    context.forEach((chunk, index) => {
-      prompt += `[Source ${index + 1}: ${chunk.documentFilename}]\n`;
-      prompt += `${chunk.content}\n\n`;
+  private buildMessages(
+    query: RagQueryDto,
+    prompt: ResolvedPrompt,
+    context: ContextChunk[],
+    history: ConversationTurnDto[] = [],
+  ): LlmMessage[] {
+    const systemPrompt = this.promptTemplates.render(prompt.systemPrompt, {
+      citationInstructions: this.citationService.getCitationInstructions(),
+      modeInstructions:
+        MODE_INSTRUCTIONS[query.responseMode || ResponseMode.DETAILED] || '',
+      languageInstructions: this.locales.getInstructions(
+        query.language || AUTO_LANGUAGE,
+      ),
     });
 
-    prompt += `Based on the above context, please provide a comprehensive answer to the question. Remember to:
-- Use only the information provided in the context
-- Include direct quotes from Peter Attia when relevant (use quotation marks)
-- DO NOT use [Source X] citations in your response - just provide the information naturally
-- If you include quotes, make them prominent and clearly attributed to Peter Attia
-- Include specific numbers, dosages, or measurements when mentioned
-- Be clear if the context doesn't provide sufficient information for certain aspects of the question
-- Focus on Peter Attia's specific recommendations and actionable insights`;
+    // The question and sources are untrusted: delimit them and say so in the system prompt
+    const systemSections = [systemPrompt, this.promptSafety.instructions];
+    if (query.format === AnswerFormat.JSON) {
+      systemSections.push(this.structuredAnswers.instructions);
+    }
+
+    return [
+      { role: 'system', content: systemSections.join('\n\n') },
+      ...this.buildHistoryMessages(history),
+      {
+        role: 'user',
+        content: this.promptTemplates.render(prompt.userPrompt, {
+          question: this.promptSafety.wrapQuestion(query.question),
+          context: context
+            .map((chunk, index) => this.formatContextChunk(chunk, index))
+            .join(''),
+        }),
+      },
+    ];
+  }
+
+  /**
+   * Prior conversation turns as chat messages
+   */
+  private buildHistoryMessages(history: ConversationTurnDto[]): LlmMessage[] {
+    return history.flatMap((turn) => [
+      {
+        role: 'user' as const,
+        content: this.promptSafety.neutralize(turn.question).text,
+      },
+      {
+        role: 'assistant' as const,
+        content: this.truncate(turn.answer, this.historyAnswerMaxChars),
+      },
+    ]);
+  }
+
+  /**
+   * Pick the prompt template version for this query. Users keep the same A/B
+   * variant across questions; anonymous queries are assigned per response.
+   */
+  private resolvePrompt(
+    query: RagQueryDto,
+    responseId: string,
+  ): Promise<ResolvedPrompt> {
+    return this.promptTemplates.resolve(
+      query.responseMode || ResponseMode.DETAILED,
+      query.language || AUTO_LANGUAGE,
+      query.userId || responseId,
+    );
+  }
+
+  /**
+   * Load conversation history and rewrite a follow-up into a standalone question
+   * unless the answer must not call the chat model
+   */
+  private async resolveConversation(
+    query: RagQueryDto,
+    rewrite = true,
+  ): Promise<{
+    history: ConversationTurnDto[];
+    standaloneQuestion?: string;
+  }> {
+    if (!query.conversationId) {
+      return { history: [] };
+    }
+
+    const history = await this.conversationService.getRecentTurns(
+      query.conversationId,
+      this.historyTurns,
+    );
+
+    if (history.length === 0 || !rewrite) {
+      return { history };
+    }
+
+    const standaloneQuestion = await this.rewriteFollowUpQuestion(
+      query.question,
+      history,
+    );
+
+    this.logger.debug(
+      `Rewrote follow-up "${query.question}" -> "${standaloneQuestion}"`,
+    );
 
-    return prompt;
+    return { history, standaloneQuestion };
+  }
+
+  /**
+   * Rewrite a follow-up question into a self-contained search query
+   */
+  private async rewriteFollowUpQuestion(
+    question: string,
+    history: ConversationTurnDto[],
+  ): Promise<string> {
+    const transcript = history
+      .map(
+        (turn) =>
+          `User: ${turn.question}\nAssistant: ${this.truncate(turn.answer, 500)}`,
+      )
+      .join('\n\n');
+
+    try {
+      const completion = await this.llm.complete({
+        tier: 'fast',
+        messages: [
+          {
+            role: 'system',
+            content: `Rewrite the user's follow-up question into a standalone question that can be understood without the conversation.
+- Resolve pronouns and references ("it", "that", "what about...") using the conversation
+- Keep the language of the follow-up question
+- If the question is already standalone, return it unchanged
+- Return only the rewritten question, without quotes or explanations`,
+          },
+          {
+            role: 'user',
+            content: `Conversation:\n${transcript}\n\nFollow-up question: ${question}\n\nStandalone question:`,
+          },
+        ],
+        temperature: 0,
+        maxTokens: 150,
+      });
+
+      return completion.content.trim() || question;
+    } catch (error: any) {
+      // Searching with the raw follow-up is still better than failing the answer
+      this.logger.warn(`Follow-up rewriting failed: ${error.message}`);
+      return question;
+    }
+  }
+
+  /**
+   * Append the answered question to its conversation
+   */
+  private async recordConversationTurn(
+    query: RagQueryDto,
+    response: RagResponseDto,
+  ): Promise<void> {
+    if (!query.conversationId) {
+      return;
+    }
+
+    try {
+      await this.conversationService.addTurn(query.conversationId, {
+        question: query.question,
+        standaloneQuestion: response.standaloneQuestion,
+        answer: response.answer,
+        responseId: response.responseId,
+      });
+    } catch (error: any) {
+      this.logger.warn(`Failed to record conversation turn: ${error.message}`);
+    }
+  }
+
+  private truncate(text: string, maxChars: number): string {
+    return text.length > maxChars ? `${text.substring(0, maxChars)}...` : text;
+  }
+
+  /**
+   * Format a context chunk as a numbered source block for the user prompt
+   */
+  private formatContextChunk(chunk: ContextChunk, index: number): string {
+    return this.promptSafety.wrapSource(
+      index + 1,
+      chunk.documentFilename,
+      chunk.content,
+    );
+  }
+
+  /**
+   * Sort chunks by the episode number in their filename (e.g. "#250 ‒ ..."); chunks
+   * from documents without one keep their relevance order at the end
+   */
+  private orderByEpisode(context: ContextChunk[]): ContextChunk[] {
+    const episodeNumber = (chunk: ContextChunk) => {
+      const match = chunk.documentFilename.match(/^#?(\d+)/);
+      return match ? parseInt(match[1], 10) : Number.MAX_SAFE_INTEGER;
+    };
+
+    return [...context].sort((a, b) => episodeNumber(a) - episodeNumber(b));
   }
 
   /**
@@ -219,22 +1190,58 @@ CRITICAL INSTRUCTIONS:
         return 600;
       case ResponseMode.ACADEMIC:
         return 800;
+      case ResponseMode.PROTOCOL:
+        return 900;
+      case ResponseMode.COMPARISON:
+        return 900;
+      case ResponseMode.TIMELINE:
+        return 1000;
+      case ResponseMode.RESEARCH:
+        return 1200;
       default:
         return 800;
     }
   }
 
   /**
-   * Calculate confidence score based on search results
+   * Cache key for a query: answers are only reused for the same mode, language, claim handling
+   * and prompt version
    */
-  private calculateConfidence(searchResults: any[]): number {
-    if (searchResults.length === 0) return 0;
+  private getCacheKey(
+    query: RagQueryDto,
+    prompt: ResolvedPrompt,
+  ): AnswerCacheKey {
+    let language: string = query.language || AUTO_LANGUAGE;
+    if (language === AUTO_LANGUAGE) {
+      // The answer follows the question's language, so it has to be part of the key
+      language = `${AUTO_LANGUAGE}-${this.locales.detect(query.question)}`;
+    }
 
-    const avgSimilarity = searchResults.reduce((sum, result) => sum + result.similarity, 0) / searchResults.length;
-    const resultCount = Math.min(searchResults.length, 5);
-    const countBonus = resultCount / 5 * 0.2; // Up to 20% bonus for having multiple results
+    return {
+      responseMode: query.responseMode || ResponseMode.DETAILED,
+      language,
+      variant: [
+        query.verification || VerificationMethod.LEXICAL,
+        query.unsupportedClaims || UnsupportedClaimPolicy.FLAG,
+        query.format || AnswerFormat.TEXT,
+        prompt.version,
+      ].join(':'),
+    };
+  }
 
-    return Math.min(avgSimilarity + countBonus, 1.0);
+  /**
+   * Expand per-decile counts into a full 0.0-1.0 histogram with empty buckets
+   */
+  private buildConfidenceHistogram(
+    buckets: Array<{ bucket: number; count: bigint }>,
+  ): Array<{ min: number; max: number; count: number }> {
+    return Array.from({ length: 10 }, (_, index) => ({
+      min: index / 10,
+      max: (index + 1) / 10,
+      count: Number(
+        buckets.find((bucket) => Number(bucket.bucket) === index)?.count || 0,
+      ),
+    }));
   }
 
   /**
@@ -253,9 +1260,10 @@ CRITICAL INSTRUCTIONS:
     responseId: string, 
     searchTime: number
   ): RagResponseDto {
-    const answer = query.language === ResponseLanguage.RUSSIAN 
-      ? "Извините, я не смог найти релевантную информацию в базе знаний Питера Аттиа для ответа на ваш вопрос. Попробуйте переформулировать вопрос или задать более конкретный вопрос о здоровье, долголетии, питании или тренировках."
-      : "I'm sorry, I couldn't find relevant information in Peter Attia's knowledge base to answer your question. Please try rephrasing your question or ask something more specific about health, longevity, nutrition, or exercise.";
+    const answer = this.locales.getNoContextMessage(
+      query.language || AUTO_LANGUAGE,
+      query.question,
+    );
 
     return {
       answer,
@@ -267,13 +1275,84 @@ CRITICAL INSTRUCTIONS:
       totalTime: searchTime,
       confidence: 0,
       sources: [],
+      citations: [],
       responseMode: query.responseMode || ResponseMode.DETAILED,
-      language: query.language || ResponseLanguage.AUTO,
+      language: query.language || AUTO_LANGUAGE,
       timestamp: new Date().toISOString(),
       responseId,
+      conversationId: query.conversationId,
     };
   }
 
+  /**
+   * Triage the question, and the standalone rewrite of a follow-up, with the guardrails
+   */
+  private assessQuestion(
+    query: RagQueryDto,
+    standaloneQuestion?: string,
+  ): QuestionAssessment {
+    return this.guardrails.assessQuestion(
+      [query.question, standaloneQuestion].filter(Boolean).join('\n'),
+      query.language || AUTO_LANGUAGE,
+    );
+  }
+
+  /**
+   * Create response when the guardrails reply instead of answering
+   */
+  private createGuardrailResponse(
+    query: RagQueryDto,
+    responseId: string,
+    assessment: QuestionAssessment,
+    totalTime: number,
+  ): RagResponseDto & { guardrail: GuardrailDecisionDto } {
+    return {
+      answer: assessment.reply || '',
+      question: query.question,
+      context: [],
+      contextCount: 0,
+      searchTime: 0,
+      generationTime: 0,
+      totalTime,
+      confidence: 0,
+      sources: [],
+      citations: [],
+      responseMode: query.responseMode || ResponseMode.DETAILED,
+      language: query.language || AUTO_LANGUAGE,
+      timestamp: new Date().toISOString(),
+      responseId,
+      conversationId: query.conversationId,
+      guardrail: assessment.decision,
+    };
+  }
+
+  /**
+   * Attribution for the token usage of the model calls made while answering. The
+   * evaluation flag carries over from the caller's context, never from the query.
+   */
+  private getUsageContext(
+    query: RagQueryDto,
+    responseId: string,
+  ): UsageContext {
+    return {
+      responseId,
+      userId: query.userId,
+      responseMode: query.responseMode || ResponseMode.DETAILED,
+      evaluation: this.usage.isEvaluation(),
+    };
+  }
+
+  /**
+   * Fallback to extractive quotes decided before generation: users over their daily budget
+   */
+  private async getFallbackReason(
+    query: RagQueryDto,
+  ): Promise<ExtractiveFallbackReason | undefined> {
+    return (await this.usage.isOverBudget(query.userId))
+      ? ExtractiveFallbackReason.BUDGET_EXCEEDED
+      : undefined;
+  }
+
   /**
    * Generate unique response ID
    */
@@ -282,21 +1361,51 @@ CRITICAL INSTRUCTIONS:
   }
 
   /**
-   * Log RAG interaction for analytics
+   * Log RAG interaction for analytics. Evaluation runs are not logged, so they do not
+   * show up in analytics or as answers that can be rated.
    */
-  private async logRagInteraction(query: RagQueryDto, response: RagResponseDto): Promise<void> {
+  private async logRagInteraction(
+    query: RagQueryDto,
+    response: RagResponseDto,
+    confidenceSignals?: ConfidenceSignals,
+  ): Promise<void> {
+    if (this.usage.isEvaluation()) {
+      return;
+    }
+
     try {
       await this.prisma.searchLog.create({
         data: {
           query: query.question,
           userId: query.userId,
+          confidence: response.confidence,
+          queryLanguage: response.queryLanguage,
+          translatedQuery: response.translatedQuery,
+          promptVersion: response.promptVersion,
+          guardrailCategory: response.guardrail?.category,
+          guardrailAction: response.guardrail?.action,
           results: {
             responseId: response.responseId,
             contextCount: response.contextCount,
             confidence: response.confidence,
+            groundedness: response.groundedness,
+            confidenceSignals: confidenceSignals
+              ? { ...confidenceSignals }
+              : undefined,
+            cached: response.cached,
             sources: response.sources,
+            // Kept so feedback on the answer can be linked to what it was based on
+            chunkIds: response.context.map((chunk) => chunk.chunkId),
+            answer: response.answer,
             responseMode: response.responseMode,
             language: response.language,
+            format: response.structured ? AnswerFormat.JSON : AnswerFormat.TEXT,
+            model: response.model,
+            researchSteps: response.researchTrace?.length,
+            injectionFindings: response.injectionFindings?.map((finding) => ({
+              ...finding,
+            })),
+            unsupportedDosages: response.guardrail?.unsupportedDosages,
           },
           responseTime: response.totalTime,
           createdAt: new Date(),
@@ -312,11 +1421,21 @@ CRITICAL INSTRUCTIONS:
    */
   async getRagAnalytics(): Promise<RagAnalyticsDto> {
     try {
-      const [totalQueries, avgStats, responseModeStats, topDocuments] = await Promise.all([
+      const [
+        totalQueries,
+        avgStats,
+        responseModeStats,
+        topDocuments,
+        confidenceBuckets,
+        promptVersionStats,
+        guardrailStats,
+        satisfaction,
+      ] = await Promise.all([
         this.prisma.searchLog.count(),
         this.prisma.searchLog.aggregate({
           _avg: {
             responseTime: true,
+            confidence: true,
           },
         }),
         this.prisma.$queryRaw`
@@ -339,6 +1458,28 @@ CRITICAL INSTRUCTIONS:
           ORDER BY count DESC
           LIMIT 10
         ` as unknown as Array<{ filename: string; count: bigint }>,
+        this.prisma.$queryRaw`
+          SELECT 
+            LEAST(FLOOR(confidence * 10), 9) as bucket,
+            COUNT(*) as count
+          FROM search_logs 
+          WHERE confidence IS NOT NULL
+          GROUP BY bucket
+        ` as unknown as Array<{ bucket: number; count: bigint }>,
+        this.prisma.searchLog.groupBy({
+          by: ['promptVersion'],
+          where: { promptVersion: { not: null } },
+          _count: { _all: true },
+          _avg: { confidence: true },
+        }),
+        this.prisma.searchLog.groupBy({
+          by: ['guardrailCategory', 'guardrailAction'],
+          where: {
+            guardrailCategory: { notIn: [GuardrailCategory.NONE] },
+          },
+          _count: { _all: true },
+        }),
+        this.feedback.getSatisfactionStats(),
       ]);
 
       const recentQueries = await this.prisma.searchLog.findMany({
@@ -350,16 +1491,45 @@ CRITICAL INSTRUCTIONS:
       return {
         totalQueries,
         averageResponseTime: Math.round(avgStats._avg.responseTime || 0),
-        averageConfidence: 0.85, // Placeholder - would need to calculate from stored data
+        averageConfidence:
+          Math.round((avgStats._avg.confidence || 0) * 100) / 100,
+        confidenceHistogram: this.buildConfidenceHistogram(confidenceBuckets),
         responseModeStats: responseModeStats.map(stat => ({
           mode: stat.mode,
           count: Number(stat.count),
         })),
+        promptVersionStats: promptVersionStats.map((stat) => ({
+          version: stat.promptVersion || '',
+          count: stat._count._all,
+          averageConfidence:
+            Math.round((stat._avg.confidence || 0) * 100) / 100,
+        })),
+        guardrailStats: guardrailStats
+          .map((stat) => ({
+            category: stat.guardrailCategory || '',
+            action: stat.guardrailAction || '',
+            count: stat._count._all,
+          }))
+          .sort((a, b) => b.count - a.count),
         topDocuments: topDocuments.map(doc => ({
           filename: doc.filename,
           count: Number(doc.count),
         })),
         recentTopics: recentQueries.map(q => q.query).slice(0, 10),
+        feedback: {
+          ratings: satisfaction.ratings,
+          satisfactionRate: satisfaction.satisfactionRate,
+        },
+        satisfactionByMode: satisfaction.byMode.map(({ key, ...stat }) => ({
+          mode: key,
+          ...stat,
+        })),
+        satisfactionByDocument: satisfaction.byDocument.map(
+          ({ key, ...stat }) => ({ filename: key, ...stat }),
+        ),
+        satisfactionByPromptVersion: satisfaction.byPromptVersion.map(
+          ({ key, ...stat }) => ({ version: key, ...stat }),
+        ),
       };
     } catch (error: any) {
       this.logger.error(`Failed to get RAG analytics: ${error.message}`);
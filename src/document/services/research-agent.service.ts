@@ -0,0 +1,416 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SearchService } from './search.service';
+import { PromptSafetyService } from './prompt-safety.service';
+import { ContextChunk, ResearchStepDto } from '../dto/rag.dto';
+import { SearchResultDto } from '../dto/search.dto';
+import {
+  LLM_PROVIDER,
+  LlmMessage,
+  LlmProvider,
+  LlmToolCall,
+  LlmToolDefinition,
+} from '../llm/llm-provider.interface';
+import { estimateTokens } from '../utils/text.utils';
+
+export interface ResearchResult {
+  answer: string;
+  model: string;
+  /** The initial context followed by the chunks found with tools, numbered as cited */
+  context: ContextChunk[];
+  trace: ResearchStepDto[];
+}
+
+interface DocumentMetadataRow {
+  id: string;
+  filename: string;
+  fileType: string;
+  metadata: unknown;
+  createdAt: Date;
+  _count: { chunks: number };
+}
+
+interface ToolOutput {
+  content: string;
+  resultCount: number;
+  sourceNumbers: number[];
+}
+
+const RESEARCH_TOOLS: LlmToolDefinition[] = [
+  {
+    name: 'searchDocuments',
+    description:
+      'Semantic search over all transcripts. Use a focused query per aspect, person or intervention.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'What to look for' },
+        limit: { type: 'integer', minimum: 1, maximum: 10 },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'searchInDocument',
+    description:
+      'Semantic search within one document, e.g. to find what a guest said elsewhere in an episode.',
+    parameters: {
+      type: 'object',
+      properties: {
+        documentId: { type: 'string' },
+        query: { type: 'string', description: 'What to look for' },
+        limit: { type: 'integer', minimum: 1, maximum: 10 },
+      },
+      required: ['documentId', 'query'],
+    },
+  },
+  {
+    name: 'findSimilarChunks',
+    description:
+      'Chunks from any document that discuss the same thing as a given chunk.',
+    parameters: {
+      type: 'object',
+      properties: {
+        chunkId: { type: 'string' },
+        limit: { type: 'integer', minimum: 1, maximum: 10 },
+      },
+      required: ['chunkId'],
+    },
+  },
+  {
+    name: 'getDocumentMetadata',
+    description:
+      'Filename, type, metadata and chunk count of a document, by ID or by part of its title.',
+    parameters: {
+      type: 'object',
+      properties: {
+        documentId: { type: 'string' },
+        title: { type: 'string', description: 'Part of the filename' },
+      },
+    },
+  },
+];
+
+@Injectable()
+export class ResearchAgentService {
+  private readonly logger = new Logger(ResearchAgentService.name);
+
+  // The request DTO's limit is not enforced without a validation pipe
+  private readonly maxSteps = 10;
+
+  private readonly defaultResults = 5;
+  private readonly maxResults = 10;
+  private readonly maxDocumentMatches = 5;
+
+  private readonly searchThreshold = 0.3;
+  // Similar chunks are found from a chunk, not a question, so the match must be closer
+  private readonly similarChunkThreshold = 0.6;
+
+  // Tool results stay in the conversation for every later call; past this the model answers
+  private readonly toolResultTokenBudget = 8000;
+
+  constructor(
+    private prisma: PrismaService,
+    private searchService: SearchService,
+    private promptSafety: PromptSafetyService,
+    @Inject(LLM_PROVIDER) private llm: LlmProvider,
+  ) {}
+
+  /**
+   * Let the model call the search tools for up to maxSteps rounds before answering.
+   * The retrieved context is sources 1..n in the messages; chunks found with tools are
+   * numbered after it, so citations resolve against the returned context.
+   */
+  async research(
+    messages: LlmMessage[],
+    context: ContextChunk[],
+    options: { maxSteps: number; maxTokens: number },
+  ): Promise<ResearchResult> {
+    const sources = [...context];
+    const trace: ResearchStepDto[] = [];
+    const conversation: LlmMessage[] = [
+      ...messages,
+      {
+        role: 'system',
+        content: `You can call tools to find more evidence before answering. The ${context.length} sources above were found for the question; sources returned by tools are numbered after them and can be cited the same way. When more searching adds nothing new, answer.`,
+      },
+    ];
+
+    const maxSteps = Math.min(
+      Math.max(Math.floor(options.maxSteps) || 1, 1),
+      this.maxSteps,
+    );
+    let toolResultTokens = 0;
+    for (let step = 1; step <= maxSteps; step++) {
+      const completion = await this.llm.complete({
+        messages: conversation,
+        tools: RESEARCH_TOOLS,
+        temperature: 0.1,
+        maxTokens: options.maxTokens,
+      });
+
+      if (!completion.toolCalls?.length) {
+        this.logger.debug(
+          `Research finished after ${step - 1} tool rounds, ${trace.length} calls`,
+        );
+        return {
+          answer: completion.content,
+          model: completion.model,
+          context: sources,
+          trace,
+        };
+      }
+
+      conversation.push({
+        role: 'assistant',
+        content: completion.content,
+        toolCalls: completion.toolCalls,
+      });
+      for (const call of completion.toolCalls) {
+        const { content, step: traceStep } = await this.runTool(
+          call,
+          step,
+          sources,
+        );
+        trace.push(traceStep);
+        toolResultTokens += estimateTokens(content);
+        conversation.push({ role: 'tool', toolCallId: call.id, content });
+      }
+
+      if (toolResultTokens > this.toolResultTokenBudget) {
+        this.logger.debug(`Research tool results exceeded the token budget`);
+        break;
+      }
+    }
+
+    // Out of steps or budget: answer from what was found, with the tools still declared
+    // since the conversation contains calls to them
+    conversation.push({
+      role: 'user',
+      content:
+        'Stop searching and answer the question now with the sources found so far.',
+    });
+    const completion = await this.llm.complete({
+      messages: conversation,
+      tools: RESEARCH_TOOLS,
+      toolChoice: 'none',
+      temperature: 0.1,
+      maxTokens: options.maxTokens,
+    });
+
+    this.logger.debug(
+      `Research stopped at the limit after ${trace.length} tool calls`,
+    );
+    return {
+      answer: completion.content,
+      model: completion.model,
+      context: sources,
+      trace,
+    };
+  }
+
+  /**
+   * Run one tool call. Failures are reported to the model as the tool result, so it
+   * can correct the arguments or carry on with what it has.
+   */
+  private async runTool(
+    call: LlmToolCall,
+    step: number,
+    sources: ContextChunk[],
+  ): Promise<{ content: string; step: ResearchStepDto }> {
+    const startTime = Date.now();
+    let args: Record<string, unknown> = {};
+
+    try {
+      args = this.parseArguments(call.arguments);
+      const output = await this.executeTool(call.name, args, sources);
+      return {
+        content: output.content,
+        step: {
+          step,
+          tool: call.name,
+          arguments: args,
+          resultCount: output.resultCount,
+          sourceNumbers: output.sourceNumbers,
+          durationMs: Date.now() - startTime,
+        },
+      };
+    } catch (error: any) {
+      this.logger.warn(`Research tool ${call.name} failed: ${error.message}`);
+      return {
+        content: `Error: ${error.message}`,
+        step: {
+          step,
+          tool: call.name,
+          arguments: args,
+          resultCount: 0,
+          sourceNumbers: [],
+          error: error.message,
+          durationMs: Date.now() - startTime,
+        },
+      };
+    }
+  }
+
+  private async executeTool(
+    name: string,
+    args: Record<string, unknown>,
+    sources: ContextChunk[],
+  ): Promise<ToolOutput> {
+    const limit = this.readLimit(args.limit);
+
+    switch (name) {
+      case 'searchDocuments': {
+        // The model's searches are not user searches, so they stay out of the analytics
+        const response = await this.searchService.searchDocuments(
+          {
+            query: this.readString(args, 'query'),
+            limit,
+            threshold: this.searchThreshold,
+          },
+          { log: false },
+        );
+        return this.toSourcesOutput(response.results, sources);
+      }
+      case 'searchInDocument': {
+        const results = await this.searchService.searchInDocument(
+          this.readString(args, 'documentId'),
+          this.readString(args, 'query'),
+          limit,
+          this.searchThreshold,
+        );
+        return this.toSourcesOutput(results, sources);
+      }
+      case 'findSimilarChunks': {
+        const results = await this.searchService.findSimilarChunks(
+          this.readString(args, 'chunkId'),
+          limit,
+          this.similarChunkThreshold,
+        );
+        return this.toSourcesOutput(results, sources);
+      }
+      case 'getDocumentMetadata':
+        return this.getDocumentMetadata(args);
+      default:
+        throw new Error(`Unknown tool "${name}"`);
+    }
+  }
+
+  private async getDocumentMetadata(
+    args: Record<string, unknown>,
+  ): Promise<ToolOutput> {
+    const documentId =
+      typeof args.documentId === 'string' ? args.documentId : undefined;
+    const title = typeof args.title === 'string' ? args.title : undefined;
+    if (!documentId && !title) {
+      throw new Error('Either documentId or title is required');
+    }
+
+    const documents: DocumentMetadataRow[] =
+      await this.prisma.document.findMany({
+        where: documentId
+          ? { id: documentId }
+          : { filename: { contains: title, mode: 'insensitive' } },
+        select: {
+          id: true,
+          filename: true,
+          fileType: true,
+          metadata: true,
+          createdAt: true,
+          _count: { select: { chunks: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: this.maxDocumentMatches,
+      });
+
+    const found = documents.map((document) => ({
+      documentId: document.id,
+      filename: document.filename,
+      fileType: document.fileType,
+      metadata: document.metadata,
+      chunkCount: document._count.chunks,
+      createdAt: document.createdAt,
+    }));
+
+    return {
+      // Filenames and metadata come from ingested files, like chunk text
+      content:
+        found.length > 0
+          ? this.promptSafety.neutralize(JSON.stringify(found)).text
+          : 'No matching documents.',
+      resultCount: found.length,
+      sourceNumbers: [],
+    };
+  }
+
+  /**
+   * Number the results as sources, reusing the number of chunks already in the context
+   */
+  private toSourcesOutput(
+    results: SearchResultDto[],
+    sources: ContextChunk[],
+  ): ToolOutput {
+    if (results.length === 0) {
+      return { content: 'No results.', resultCount: 0, sourceNumbers: [] };
+    }
+
+    const sourceNumbers: number[] = [];
+    let content = '';
+    for (const result of results) {
+      let index = sources.findIndex(
+        (source) => source.chunkId === result.chunkId,
+      );
+      if (index === -1) {
+        sources.push({
+          content: result.content,
+          similarity: result.similarity,
+          documentFilename: result.documentFilename,
+          chunkIndex: result.chunkIndex,
+          documentId: result.documentId,
+          chunkId: result.chunkId,
+          startPosition: result.startPosition,
+          endPosition: result.endPosition,
+        });
+        index = sources.length - 1;
+      }
+
+      const number = index + 1;
+      sourceNumbers.push(number);
+      content += `documentId: ${result.documentId}, chunkId: ${result.chunkId}\n`;
+      content += this.promptSafety.wrapSource(
+        number,
+        result.documentFilename,
+        sources[index].content,
+      );
+    }
+
+    return { content, resultCount: results.length, sourceNumbers };
+  }
+
+  private parseArguments(raw: string): Record<string, unknown> {
+    try {
+      const parsed: unknown = JSON.parse(raw || '{}');
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new Error('Arguments must be a JSON object');
+  }
+
+  private readString(args: Record<string, unknown>, key: string): string {
+    const value = args[key];
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new Error(`"${key}" must be a non-empty string`);
+    }
+    return value.trim();
+  }
+
+  private readLimit(value: unknown): number {
+    const limit = typeof value === 'number' ? Math.floor(value) : NaN;
+    return isNaN(limit)
+      ? this.defaultResults
+      : Math.min(Math.max(limit, 1), this.maxResults);
+  }
+}
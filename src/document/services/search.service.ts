@@ -1,45 +1,80 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { EmbeddingService } from './embedding.service';
-import { SearchDocumentsDto, SearchResultDto, SearchResponseDto } from '../dto/search.dto';
+import { QueryExpansionService } from './query-expansion.service';
+import {
+  NormalizedQuery,
+  QueryTranslationService,
+} from './query-translation.service';
+import {
+  RetrievalMode,
+  SearchDocumentsDto,
+  SearchResultDto,
+  SearchResponseDto,
+} from '../dto/search.dto';
+import { CircuitOpenError } from '../llm/resilient-openai.client';
+
+type VectorSearchRow = Awaited<
+  ReturnType<PrismaService['vectorSimilaritySearch']>
+>[number];
 
 @Injectable()
 export class SearchService {
   private readonly logger = new Logger(SearchService.name);
 
+  // Reciprocal rank fusion constant; dampens the weight of top ranks in any single list
+  private readonly rrfK = 60;
+
   constructor(
     private prisma: PrismaService,
     private embeddingService: EmbeddingService,
+    private queryExpansionService: QueryExpansionService,
+    private queryTranslationService: QueryTranslationService,
   ) {}
 
   /**
-   * Perform semantic search across all document chunks
+   * Perform semantic search across all document chunks. Searches are logged for
+   * analytics unless `log` is false.
    */
-  async searchDocuments(searchDto: SearchDocumentsDto): Promise<SearchResponseDto> {
+  async searchDocuments(
+    searchDto: SearchDocumentsDto,
+    { log = true }: { log?: boolean } = {},
+  ): Promise<SearchResponseDto> {
     const startTime = Date.now();
     
     try {
       this.logger.debug(`Searching for: "${searchDto.query}"`);
 
-      // Step 1: Generate embedding for the search query
-      const queryEmbedding = await this.embeddingService.generateEmbedding(searchDto.query);
+      // Step 0: Translate the query into the corpus language, so questions in
+      // other languages are matched against the transcripts' own wording
+      const normalized: Partial<NormalizedQuery> & { query: string } =
+        searchDto.translateQuery !== false
+          ? await this.queryTranslationService.normalize(searchDto.query)
+          : { query: searchDto.query };
+      const retrievalDto = { ...searchDto, query: normalized.query };
 
-      // Step 2: Perform vector similarity search
-      const searchResults = await this.prisma.vectorSimilaritySearch(
-        queryEmbedding,
-        searchDto.limit || 5,
-        searchDto.threshold || 0.7,
-      );
+      let results: SearchResultDto[];
+      let expandedQueries: string[] | undefined;
 
-      // Step 3: Transform results to DTO format
-      const results: SearchResultDto[] = searchResults.map(result => ({
-        content: result.content,
-        similarity: Number(result.similarity),
-        documentFilename: result.filename,
-        chunkIndex: Number(result.chunk_index),
-        documentId: result.document_id,
-        chunkId: result.id,
-      }));
+      if (searchDto.retrievalMode === RetrievalMode.MULTI_QUERY) {
+        ({ results, expandedQueries } =
+          await this.multiQuerySearch(retrievalDto));
+      } else {
+        // Step 1: Generate embedding for the search query
+        const queryEmbedding = await this.embeddingService.generateEmbedding(
+          retrievalDto.query,
+        );
+
+        // Step 2: Perform vector similarity search
+        const searchResults = await this.prisma.vectorSimilaritySearch(
+          queryEmbedding,
+          searchDto.limit || 5,
+          searchDto.threshold || 0.7,
+        );
+
+        // Step 3: Transform results to DTO format
+        results = searchResults.map((result) => this.toSearchResult(result));
+      }
 
       const processingTime = Date.now() - startTime;
 
@@ -48,20 +83,129 @@ export class SearchService {
       );
 
       // Step 4: Log search for analytics
-      await this.logSearch(searchDto.query, results.length, processingTime);
+      if (log) {
+        await this.logSearch(
+          searchDto.query,
+          results.length,
+          processingTime,
+          normalized,
+        );
+      }
 
       return {
         results,
         totalResults: results.length,
         processingTime,
         query: searchDto.query,
+        expandedQueries,
+        queryLanguage: normalized.language,
+        translatedQuery: normalized.translatedQuery,
       };
     } catch (error: any) {
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
       this.logger.error(`Search failed for query "${searchDto.query}": ${error.message}`);
       throw new Error(`Search failed: ${error.message}`);
     }
   }
 
+  /**
+   * Embed the query together with generated paraphrases (and optionally a
+   * hypothetical answer), search with each embedding and fuse the ranked lists
+   */
+  private async multiQuerySearch(
+    searchDto: SearchDocumentsDto,
+  ): Promise<{ results: SearchResultDto[]; expandedQueries: string[] }> {
+    const limit = searchDto.limit || 5;
+
+    const [paraphrases, hypotheticalDocument] = await Promise.all([
+      this.queryExpansionService.generateParaphrases(
+        searchDto.query,
+        searchDto.queryVariants || 3,
+      ),
+      searchDto.hyde
+        ? this.queryExpansionService.generateHypotheticalDocument(
+            searchDto.query,
+          )
+        : Promise.resolve(null),
+    ]);
+
+    const expandedQueries = hypotheticalDocument
+      ? [...paraphrases, hypotheticalDocument]
+      : paraphrases;
+
+    const embeddings = await this.embeddingService.generateEmbeddings([
+      searchDto.query,
+      ...expandedQueries,
+    ]);
+
+    const resultLists = await Promise.all(
+      embeddings.map((embedding) =>
+        this.prisma.vectorSimilaritySearch(
+          embedding,
+          limit,
+          searchDto.threshold || 0.7,
+        ),
+      ),
+    );
+
+    this.logger.debug(
+      `Multi-query search over ${embeddings.length} queries returned ${resultLists.reduce((sum, list) => sum + list.length, 0)} candidates`,
+    );
+
+    const results = this.fuseResults(
+      resultLists.map((list) =>
+        list.map((result) => this.toSearchResult(result)),
+      ),
+    ).slice(0, limit);
+
+    return { results, expandedQueries };
+  }
+
+  /**
+   * Reciprocal rank fusion: chunks ranked high by several queries come first.
+   * Each chunk keeps its best similarity score.
+   */
+  private fuseResults(resultLists: SearchResultDto[][]): SearchResultDto[] {
+    const fused = new Map<string, { result: SearchResultDto; score: number }>();
+
+    for (const list of resultLists) {
+      list.forEach((result, rank) => {
+        const existing = fused.get(result.chunkId);
+        const score = 1 / (this.rrfK + rank + 1);
+
+        if (!existing) {
+          fused.set(result.chunkId, { result, score });
+          return;
+        }
+
+        existing.score += score;
+        if (result.similarity > existing.result.similarity) {
+          existing.result = result;
+        }
+      });
+    }
+
+    return Array.from(fused.values())
+      .sort((a, b) => b.score - a.score)
+      .map((entry) => entry.result);
+  }
+
+  private toSearchResult(result: VectorSearchRow): SearchResultDto {
+    return {
+      content: result.content,
+      similarity: Number(result.similarity),
+      documentFilename: result.filename,
+      chunkIndex: Number(result.chunk_index),
+      documentId: result.document_id,
+      chunkId: result.id,
+      startPosition: Number(result.start_position),
+      endPosition: Number(result.end_position),
+    };
+  }
+
   /**
    * Get similar chunks to a specific chunk (for "related content" features)
    */
@@ -104,6 +248,8 @@ export class SearchService {
           chunkIndex: Number(result.chunk_index),
           documentId: result.document_id,
           chunkId: result.id,
+          startPosition: Number(result.start_position),
+          endPosition: Number(result.end_position),
         }));
 
       return results;
@@ -133,6 +279,8 @@ export class SearchService {
           dc.content,
           dc.document_id,
           dc.chunk_index,
+          dc.start_position,
+          dc.end_position,
           d.filename,
           d.file_type,
           (dc.embedding <=> ${`[${queryEmbedding.join(',')}]`}::vector) as distance,
@@ -149,6 +297,8 @@ export class SearchService {
         content: string;
         document_id: string;
         chunk_index: number;
+        start_position: number;
+        end_position: number;
         filename: string;
         file_type: string;
         distance: number;
@@ -162,6 +312,8 @@ export class SearchService {
         chunkIndex: Number(result.chunk_index),
         documentId: result.document_id,
         chunkId: result.id,
+        startPosition: Number(result.start_position),
+        endPosition: Number(result.end_position),
       }));
     } catch (error: any) {
       this.logger.error(`Document search failed: ${error.message}`);
@@ -172,11 +324,18 @@ export class SearchService {
   /**
    * Log search queries for analytics
    */
-  private async logSearch(query: string, resultsCount: number, processingTime: number): Promise<void> {
+  private async logSearch(
+    query: string,
+    resultsCount: number,
+    processingTime: number,
+    normalized: Partial<NormalizedQuery>,
+  ): Promise<void> {
     try {
       await this.prisma.searchLog.create({
         data: {
           query,
+          queryLanguage: normalized.language,
+          translatedQuery: normalized.translatedQuery,
           results: { count: resultsCount },
           responseTime: processingTime,
           createdAt: new Date(),
@@ -0,0 +1,173 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import {
+  ContextChunk,
+  EvidenceStrength,
+  StructuredAnswerDto,
+} from '../dto/rag.dto';
+import {
+  LLM_PROVIDER,
+  LlmMessage,
+  LlmProvider,
+} from '../llm/llm-provider.interface';
+
+/**
+ * Answer shape requested from the model, before validation
+ */
+interface RawStructuredAnswer {
+  summary?: unknown;
+  recommendations?: unknown;
+}
+
+type RawRecommendation = Partial<
+  Record<
+    'intervention' | 'dose' | 'frequency' | 'evidenceStrength' | 'sources',
+    unknown
+  >
+>;
+
+@Injectable()
+export class StructuredAnswerService {
+  private readonly logger = new Logger(StructuredAnswerService.name);
+
+  // Invalid output is sent back to the model with the errors this many times
+  private readonly maxRepairAttempts = 1;
+
+  /**
+   * Output format appended to the system prompt for JSON answers
+   */
+  readonly instructions = `RESPONSE FORMAT:
+Respond with a single JSON object and nothing else:
+{
+  "summary": "<2-4 sentence answer, each sentence marked with its source number, e.g. [1]>",
+  "recommendations": [
+    {
+      "intervention": "<what to do>",
+      "dose": "<dose, intensity or amount as stated in the sources, or null>",
+      "frequency": "<how often or for how long, or null>",
+      "evidenceStrength": "${Object.values(EvidenceStrength).join('" | "')}",
+      "sources": [<numbers of the sources that support it>]
+    }
+  ]
+}
+- Include only recommendations the sources state; use an empty list if there are none
+- "strong": supported by trials or meta-analyses cited in the sources; "moderate": observational data or mechanisms; "weak": limited or conflicting data; "anecdotal": personal practice or opinion
+- Never fill in doses or frequencies the sources do not give`;
+
+  constructor(@Inject(LLM_PROVIDER) private llm: LlmProvider) {}
+
+  /**
+   * Generate a structured answer, asking the model to fix its output once if it does not validate
+   */
+  async generate(
+    messages: LlmMessage[],
+    context: ContextChunk[],
+    maxTokens: number,
+  ): Promise<{ structured: StructuredAnswerDto; model: string }> {
+    const conversation = [...messages];
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+      const completion = await this.llm.complete({
+        messages: conversation,
+        temperature: 0.1,
+        maxTokens,
+        responseFormat: 'json',
+      });
+
+      const result = await this.parse(completion.content, context);
+      if (result.structured) {
+        return { structured: result.structured, model: completion.model };
+      }
+
+      errors = result.errors;
+      this.logger.warn(
+        `Structured answer failed validation (attempt ${attempt + 1}): ${errors.join('; ')}`,
+      );
+      conversation.push(
+        { role: 'assistant', content: completion.content },
+        {
+          role: 'user',
+          content: `Your response is invalid: ${errors.join('; ')}. Respond again with only the corrected JSON object.`,
+        },
+      );
+    }
+
+    throw new Error(`Structured answer is invalid: ${errors.join('; ')}`);
+  }
+
+  /**
+   * Parse and validate the model output. Source numbers are resolved to chunk IDs
+   * and references to sources outside the context are dropped.
+   */
+  async parse(
+    raw: string,
+    context: ContextChunk[],
+  ): Promise<{ structured?: StructuredAnswerDto; errors: string[] }> {
+    let parsed: RawStructuredAnswer | null;
+    try {
+      parsed = JSON.parse(
+        raw.substring(raw.indexOf('{'), raw.lastIndexOf('}') + 1),
+      ) as RawStructuredAnswer | null;
+    } catch {
+      return { errors: ['response is not valid JSON'] };
+    }
+
+    if (!parsed || typeof parsed !== 'object') {
+      return { errors: ['response is not a JSON object'] };
+    }
+
+    const recommendations: RawRecommendation[] = Array.isArray(
+      parsed.recommendations,
+    )
+      ? parsed.recommendations.map((item: unknown) =>
+          item && typeof item === 'object' ? (item as RawRecommendation) : {},
+        )
+      : [];
+
+    const candidate = plainToInstance(StructuredAnswerDto, {
+      summary: parsed.summary,
+      recommendations: recommendations.map((item) => ({
+        intervention: item.intervention,
+        dose: item.dose ?? undefined,
+        frequency: item.frequency ?? undefined,
+        evidenceStrength:
+          typeof item.evidenceStrength === 'string'
+            ? item.evidenceStrength.toLowerCase()
+            : item.evidenceStrength,
+        supportingChunkIds: this.resolveSources(item.sources, context),
+      })),
+    });
+
+    const validationErrors = await validate(candidate);
+    if (validationErrors.length > 0) {
+      return { errors: this.formatErrors(validationErrors) };
+    }
+
+    return { structured: candidate, errors: [] };
+  }
+
+  private resolveSources(sources: unknown, context: ContextChunk[]): string[] {
+    if (!Array.isArray(sources)) {
+      return [];
+    }
+
+    const chunkIds = sources
+      .map((source) => context[Number(source) - 1]?.chunkId)
+      .filter((chunkId): chunkId is string => chunkId !== undefined);
+    return Array.from(new Set(chunkIds));
+  }
+
+  private formatErrors(errors: ValidationError[], path = ''): string[] {
+    return errors.flatMap((error) => {
+      const property = path ? `${path}.${error.property}` : error.property;
+      return [
+        ...Object.values(error.constraints || {}).map((message) =>
+          path ? `${path}.${message}` : message,
+        ),
+        ...this.formatErrors(error.children || [], property),
+      ];
+    });
+  }
+}
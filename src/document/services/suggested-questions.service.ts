@@ -0,0 +1,131 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { EmbeddingService } from './embedding.service';
+import { ContextChunk } from '../dto/rag.dto';
+import { LLM_PROVIDER, LlmProvider } from '../llm/llm-provider.interface';
+
+@Injectable()
+export class SuggestedQuestionsService {
+  private readonly logger = new Logger(SuggestedQuestionsService.name);
+
+  // More candidates than needed, since some fail the coverage check
+  private readonly candidateCount = 5;
+  private readonly maxSuggestions = 3;
+
+  private readonly contextChunks = 5;
+  private readonly chunkMaxChars = 600;
+  private readonly answerMaxChars = 1000;
+
+  // Stricter than answer retrieval's default threshold: a suggestion should clearly have content
+  private readonly minCoverageSimilarity = 0.4;
+
+  constructor(
+    private prisma: PrismaService,
+    private embeddingService: EmbeddingService,
+    @Inject(LLM_PROVIDER) private llm: LlmProvider,
+  ) {}
+
+  /**
+   * Follow-up questions about topics raised in the context, keeping only those the
+   * knowledge base has a matching chunk for. Returns an empty list if suggesting fails,
+   * so the answer is never held back by it.
+   */
+  async suggest(
+    question: string,
+    answer: string,
+    context: ContextChunk[],
+    languageInstructions: string,
+  ): Promise<string[]> {
+    if (context.length === 0) {
+      return [];
+    }
+
+    try {
+      const candidates = await this.generateCandidates(
+        question,
+        answer,
+        context,
+        languageInstructions,
+      );
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const covered = await this.filterCovered(candidates);
+      this.logger.debug(
+        `Suggested ${covered.length} of ${candidates.length} follow-up questions`,
+      );
+      return covered.slice(0, this.maxSuggestions);
+    } catch (error: any) {
+      this.logger.warn(`Question suggestion failed: ${error.message}`);
+      return [];
+    }
+  }
+
+  private async generateCandidates(
+    question: string,
+    answer: string,
+    context: ContextChunk[],
+    languageInstructions: string,
+  ): Promise<string[]> {
+    const sources = context
+      .slice(0, this.contextChunks)
+      .map(
+        (chunk, index) =>
+          `[${index + 1}] ${chunk.content.substring(0, this.chunkMaxChars)}`,
+      )
+      .join('\n\n');
+
+    const completion = await this.llm.complete({
+      tier: 'fast',
+      temperature: 0.5,
+      maxTokens: 40 * this.candidateCount,
+      messages: [
+        {
+          role: 'system',
+          content: `You suggest follow-up questions for a knowledge base about health, longevity, exercise, nutrition and sleep.
+Write ${this.candidateCount} short questions (at most 12 words) the user might ask next about topics, studies, interventions or people mentioned in the sources but not already covered by the answer.
+- Only ask about things the sources actually discuss
+- Do not repeat or rephrase the user's question
+- Output one question per line, without numbering or extra text
+${languageInstructions}`,
+        },
+        {
+          role: 'user',
+          content: `Question: ${question}\n\nAnswer: ${answer.substring(0, this.answerMaxChars)}\n\nSources:\n${sources}`,
+        },
+      ],
+    });
+
+    const normalizedQuestion = question.trim().toLowerCase();
+    const candidates = completion.content
+      .split('\n')
+      .map((line) => line.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, '').trim())
+      .filter(
+        (line) => line.length > 0 && line.toLowerCase() !== normalizedQuestion,
+      );
+
+    return Array.from(new Set(candidates)).slice(0, this.candidateCount);
+  }
+
+  /**
+   * Keep the candidates whose closest chunk is similar enough: one embedding call for
+   * all of them, then a single-row vector lookup each
+   */
+  private async filterCovered(candidates: string[]): Promise<string[]> {
+    const embeddings =
+      await this.embeddingService.generateEmbeddings(candidates);
+
+    const matches = await Promise.all(
+      embeddings.map((embedding) =>
+        this.prisma.vectorSimilaritySearch(
+          embedding,
+          1,
+          this.minCoverageSimilarity,
+        ),
+      ),
+    );
+
+    return candidates.filter((_, index) => matches[index].length > 0);
+  }
+}
@@ -0,0 +1,121 @@
+export interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Common English and Russian function words that carry no topical meaning
+const STOPWORDS = new Set(
+  [
+    'a an and are as at be but by can do does for from has have he his how',
+    'i if in is it its of on or she so that the their there they this to',
+    'was we were what when which who will with you your about also more',
+    'than then these those into not no yes very just like',
+    'и в во не что он на я с со как а то все она так его но да ты к у же вы',
+    'за бы по ее мне есть они это из для или при',
+  ]
+    .join(' ')
+    .split(' '),
+);
+
+/**
+ * Split text into sentences, keeping character offsets into the original text
+ */
+export function splitSentences(text: string): TextSpan[] {
+  const sentences: TextSpan[] = [];
+  const boundary = /[.!?]+(?=\s+|$)|\n+/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  const push = (from: number, to: number) => {
+    const raw = text.substring(from, to);
+    const trimmedStart = from + (raw.length - raw.trimStart().length);
+    const trimmed = raw.trim();
+    if (trimmed.length > 0) {
+      sentences.push({
+        text: trimmed,
+        start: trimmedStart,
+        end: trimmedStart + trimmed.length,
+      });
+    }
+  };
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match[0].startsWith('\n')
+      ? match.index
+      : match.index + match[0].length;
+    push(start, end);
+    start = match.index + match[0].length;
+  }
+  push(start, text.length);
+
+  return sentences;
+}
+
+/**
+ * Lowercase word tokens without stopwords and very short words
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (token) => token.length > 1 && !STOPWORDS.has(token),
+  );
+}
+
+/**
+ * Share of the query tokens that also occur in the candidate (0-1)
+ */
+export function lexicalOverlap(
+  queryTokens: string[],
+  candidateTokens: string[] | Set<string>,
+): number {
+  const uniqueQuery = new Set(queryTokens);
+  if (uniqueQuery.size === 0) {
+    return 0;
+  }
+
+  const candidate =
+    candidateTokens instanceof Set ? candidateTokens : new Set(candidateTokens);
+  let matches = 0;
+  uniqueQuery.forEach((token) => {
+    if (candidate.has(token)) {
+      matches++;
+    }
+  });
+
+  return matches / uniqueQuery.size;
+}
+
+/**
+ * Rough token count for budgeting prompts without a model-specific tokenizer.
+ * English averages ~4 characters per token; Cyrillic and other non-ASCII text ~2.
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) {
+      ascii++;
+    }
+  }
+
+  return Math.ceil(ascii / 4 + (text.length - ascii) / 2);
+}
+
+/**
+ * Join two consecutive chunks, dropping the text the second repeats from the end of the first
+ */
+export function mergeOverlapping(
+  first: string,
+  second: string,
+  maxOverlap = 500,
+  minOverlap = 20,
+): string {
+  const limit = Math.min(maxOverlap, first.length, second.length);
+
+  for (let size = limit; size >= minOverlap; size--) {
+    if (first.endsWith(second.substring(0, size))) {
+      return first + second.substring(size);
+    }
+  }
+
+  return `${first} ${second}`;
+}
@@ -0,0 +1,309 @@
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsNumber,
+  IsBoolean,
+  IsArray,
+  ValidateNested,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ResponseMode } from '../../document/dto/rag.dto';
+
+export enum EvaluationRunStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * One line of a golden dataset (JSONL)
+ */
+export class GoldenExampleDto {
+  @ApiPropertyOptional({
+    description: 'Stable example ID used to match results across runs',
+    example: 'zone2-definition',
+  })
+  @IsOptional()
+  @IsString()
+  id?: string;
+
+  @ApiProperty({
+    description: 'Question to ask',
+    example: 'What is zone 2 training?',
+  })
+  @IsString()
+  question: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Documents that should be retrieved; matched case-insensitively against filenames (exact or substring)',
+    example: ['#250 ‒ Training principles for longevity'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  expectedDocuments?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Reference answer compared to the generated one',
+    example:
+      'Zone 2 is the highest intensity at which lactate stays below about 2 mmol/L.',
+  })
+  @IsOptional()
+  @IsString()
+  expectedAnswer?: string;
+
+  @ApiPropertyOptional({
+    description: 'Response mode to answer in',
+    enum: ResponseMode,
+  })
+  @IsOptional()
+  responseMode?: ResponseMode;
+}
+
+export class RunEvaluationDto {
+  @ApiPropertyOptional({
+    description: 'Run label shown in run lists',
+    example: 'reranker=llm',
+  })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'JSONL golden dataset inside EVALUATION_DATASET_DIR (default ./evaluation); ignored when examples are given',
+    example: 'golden.example.jsonl',
+  })
+  @IsOptional()
+  @IsString()
+  datasetPath?: string;
+
+  @ApiPropertyOptional({
+    description: 'Inline golden examples',
+    type: [GoldenExampleDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => GoldenExampleDto)
+  examples?: GoldenExampleDto[];
+
+  @ApiPropertyOptional({
+    description: 'Cutoff for recall@k and MRR',
+    example: 5,
+    default: 5,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  k?: number = 5;
+
+  @ApiPropertyOptional({
+    description:
+      'Minimum similarity for search results, as in RAG queries (lower it for fake embeddings)',
+    example: 0.3,
+    default: 0.3,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.01)
+  @Max(1)
+  similarityThreshold?: number = 0.3;
+
+  @ApiPropertyOptional({
+    description:
+      'Also generate answers and score faithfulness; retrieval-only runs are much faster',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  generateAnswers?: boolean = true;
+}
+
+export class EvaluationMetricsDto {
+  @ApiProperty({ description: 'Number of examples evaluated', example: 50 })
+  examples: number;
+
+  @ApiProperty({
+    description:
+      'Mean share of expected documents found in the top k results (examples with expected documents only)',
+    example: 0.82,
+  })
+  recallAtK: number;
+
+  @ApiProperty({
+    description: 'Mean reciprocal rank of the first expected document',
+    example: 0.71,
+  })
+  mrr: number;
+
+  @ApiPropertyOptional({
+    description: 'Mean groundedness of the generated answers (0-1)',
+    example: 0.88,
+  })
+  faithfulness?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Mean share of reference answer words found in the generated answer',
+    example: 0.64,
+  })
+  answerOverlap?: number;
+
+  @ApiProperty({ description: 'Median search latency (ms)', example: 180 })
+  searchLatencyP50: number;
+
+  @ApiProperty({
+    description: '95th percentile search latency (ms)',
+    example: 420,
+  })
+  searchLatencyP95: number;
+
+  @ApiPropertyOptional({
+    description: 'Median answer latency (ms)',
+    example: 3200,
+  })
+  answerLatencyP50?: number;
+
+  @ApiPropertyOptional({
+    description: '95th percentile answer latency (ms)',
+    example: 6100,
+  })
+  answerLatencyP95?: number;
+
+  @ApiProperty({
+    description: 'Examples that failed with an error',
+    example: 0,
+  })
+  errors: number;
+}
+
+export class EvaluationExampleResultDto {
+  @ApiProperty({ description: 'Example ID', example: 'zone2-definition' })
+  id: string;
+
+  @ApiProperty({ description: 'Question', example: 'What is zone 2 training?' })
+  question: string;
+
+  @ApiProperty({
+    description: 'Distinct documents in the top k results, best first',
+  })
+  retrievedDocuments: string[];
+
+  @ApiPropertyOptional({
+    description: 'Share of expected documents found in the top k',
+    example: 1,
+  })
+  recall?: number;
+
+  @ApiPropertyOptional({
+    description: 'Reciprocal rank of the first expected document (0 if missed)',
+    example: 0.5,
+  })
+  reciprocalRank?: number;
+
+  @ApiProperty({ description: 'Search latency (ms)', example: 150 })
+  searchTime: number;
+
+  @ApiPropertyOptional({ description: 'Generated answer' })
+  answer?: string;
+
+  @ApiPropertyOptional({ description: 'Answer groundedness (0-1)', example: 1 })
+  groundedness?: number;
+
+  @ApiPropertyOptional({
+    description: 'Share of reference answer words in the generated answer',
+    example: 0.7,
+  })
+  answerOverlap?: number;
+
+  @ApiPropertyOptional({ description: 'Answer latency (ms)', example: 2900 })
+  answerTime?: number;
+
+  @ApiPropertyOptional({ description: 'Error message if the example failed' })
+  error?: string;
+}
+
+export class EvaluationRunDto {
+  @ApiProperty({ description: 'Run ID', example: 'clx123' })
+  id: string;
+
+  @ApiPropertyOptional({ description: 'Run label', example: 'reranker=llm' })
+  name?: string | null;
+
+  @ApiProperty({
+    description: 'Dataset path, or "inline"',
+    example: 'evaluation/golden.example.jsonl',
+  })
+  dataset: string;
+
+  @ApiProperty({ description: 'Run status', enum: EvaluationRunStatus })
+  status: string;
+
+  @ApiProperty({
+    description:
+      'Settings the run used (k, answer generation, providers), for comparing runs',
+  })
+  config: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    description: 'Aggregate metrics',
+    type: EvaluationMetricsDto,
+  })
+  metrics?: EvaluationMetricsDto | null;
+
+  @ApiPropertyOptional({
+    description: 'Per-example results',
+    type: [EvaluationExampleResultDto],
+  })
+  results?: EvaluationExampleResultDto[] | null;
+
+  @ApiPropertyOptional({ description: 'Failure reason for failed runs' })
+  error?: string | null;
+
+  @ApiProperty({ description: 'Run start time' })
+  startedAt: Date;
+
+  @ApiPropertyOptional({ description: 'Run completion time' })
+  completedAt?: Date | null;
+}
+
+export class EvaluationRunComparisonDto {
+  @ApiProperty({ description: 'Run being compared', example: 'clx456' })
+  runId: string;
+
+  @ApiProperty({ description: 'Baseline run', example: 'clx123' })
+  baselineId: string;
+
+  @ApiProperty({
+    description: 'Metric changes (run minus baseline)',
+    example: { recallAtK: 0.04, mrr: -0.02, searchLatencyP50: 35 },
+  })
+  metricDeltas: Record<string, number>;
+
+  @ApiProperty({
+    description:
+      'Examples whose recall, reciprocal rank or groundedness changed, matched by ID',
+    example: [
+      {
+        id: 'zone2-definition',
+        question: 'What is zone 2 training?',
+        recall: { baseline: 0.5, run: 1 },
+      },
+    ],
+  })
+  changedExamples: Array<{
+    id: string;
+    question: string;
+    recall?: { baseline?: number; run?: number };
+    reciprocalRank?: { baseline?: number; run?: number };
+    groundedness?: { baseline?: number; run?: number };
+  }>;
+}
@@ -0,0 +1,107 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { EvaluationModule } from './evaluation.module';
+import { EvaluationService } from './evaluation.service';
+
+/**
+ * Offline evaluation CLI.
+ *
+ * Usage: npm run evaluate -- <dataset.jsonl> [--k 5] [--threshold 0.3]
+ *   [--name label] [--retrieval-only] [--baseline <runId>]
+ *
+ * Runs without network with LLM_PROVIDER=fake, EMBEDDING_PROVIDER=fake and
+ * RERANKER=lexical (documents must have been embedded with the fake provider too).
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '.env',
+    }),
+    EvaluationModule,
+  ],
+})
+class EvaluationCliModule {}
+
+function parseArgs(argv: string[]) {
+  const args = {
+    dataset: '',
+    k: 5,
+    similarityThreshold: 0.3,
+    name: undefined as string | undefined,
+    generateAnswers: true,
+    baseline: undefined as string | undefined,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--k':
+        args.k = parseInt(argv[++i], 10);
+        break;
+      case '--threshold':
+        args.similarityThreshold = parseFloat(argv[++i]);
+        break;
+      case '--name':
+        args.name = argv[++i];
+        break;
+      case '--retrieval-only':
+        args.generateAnswers = false;
+        break;
+      case '--baseline':
+        args.baseline = argv[++i];
+        break;
+      default:
+        args.dataset = argv[i];
+    }
+  }
+
+  if (!args.dataset) {
+    throw new Error(
+      'Usage: evaluate <dataset.jsonl> [--k 5] [--threshold 0.3] [--name label] [--retrieval-only] [--baseline <runId>]',
+    );
+  }
+  return args;
+}
+
+async function main() {
+  const logger = new Logger('Evaluation');
+  const args = parseArgs(process.argv.slice(2));
+
+  const app = await NestFactory.createApplicationContext(EvaluationCliModule, {
+    logger: ['error', 'warn', 'log'],
+  });
+
+  try {
+    const evaluationService = app.get(EvaluationService);
+    const examples = await evaluationService.loadDataset(args.dataset);
+    const run = await evaluationService.runEvaluation(examples, {
+      name: args.name,
+      dataset: args.dataset,
+      k: args.k,
+      similarityThreshold: args.similarityThreshold,
+      generateAnswers: args.generateAnswers,
+    });
+
+    logger.log(`Run ${run.id}: ${JSON.stringify(run.metrics, null, 2)}`);
+
+    if (args.baseline) {
+      const comparison = await evaluationService.compareRuns(
+        run.id,
+        args.baseline,
+      );
+      logger.log(
+        comparison
+          ? `Compared to ${args.baseline}: ${JSON.stringify(comparison, null, 2)}`
+          : `Baseline run ${args.baseline} not found or not completed`,
+      );
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((error: Error) => {
+  new Logger('Evaluation').error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,216 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Body,
+  Logger,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+} from '@nestjs/swagger';
+import { isAbsolute, relative, resolve } from 'path';
+import { EvaluationService } from './evaluation.service';
+import {
+  EvaluationRunComparisonDto,
+  EvaluationRunDto,
+  GoldenExampleDto,
+  RunEvaluationDto,
+} from './dto/evaluation.dto';
+
+@ApiTags('Evaluation')
+@Controller('evaluation')
+export class EvaluationController {
+  private readonly logger = new Logger(EvaluationController.name);
+
+  constructor(
+    private readonly evaluationService: EvaluationService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Post('runs')
+  @ApiOperation({
+    summary: 'Run an evaluation',
+    description:
+      'Run a golden dataset (inline examples, or a JSONL file inside EVALUATION_DATASET_DIR) through search and RAG and store the metrics as a run. Blocks until the run finishes.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Run completed',
+    type: EvaluationRunDto,
+  })
+  @ApiResponse({ status: 400, description: 'Missing or invalid dataset' })
+  async runEvaluation(
+    @Body() body: RunEvaluationDto,
+  ): Promise<EvaluationRunDto> {
+    try {
+      const examples = await this.resolveExamples(body);
+
+      return await this.evaluationService.runEvaluation(examples, {
+        name: body.name,
+        dataset: body.examples?.length ? 'inline' : body.datasetPath || '',
+        k: body.k || 5,
+        similarityThreshold: body.similarityThreshold || 0.3,
+        generateAnswers: body.generateAnswers !== false,
+      });
+    } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Evaluation run failed: ${error.message}`);
+      throw new HttpException(
+        `Evaluation failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('runs')
+  @ApiOperation({
+    summary: 'List evaluation runs',
+    description: 'Recent runs with their metrics, newest first',
+  })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Runs retrieved successfully',
+    type: [EvaluationRunDto],
+  })
+  async listRuns(@Query('limit') limit?: string): Promise<EvaluationRunDto[]> {
+    try {
+      return await this.evaluationService.listRuns(
+        limit ? parseInt(limit, 10) : 20,
+      );
+    } catch (error: any) {
+      this.logger.error(`Failed to list evaluation runs: ${error.message}`);
+      throw new HttpException(
+        `Evaluation run listing failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('runs/:id')
+  @ApiOperation({ summary: 'Get an evaluation run with per-example results' })
+  @ApiParam({ name: 'id', description: 'Run ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Run retrieved successfully',
+    type: EvaluationRunDto,
+  })
+  @ApiResponse({ status: 404, description: 'Run not found' })
+  async getRun(@Param('id') id: string): Promise<EvaluationRunDto> {
+    try {
+      const run = await this.evaluationService.getRun(id);
+
+      if (!run) {
+        throw new HttpException('Run not found', HttpStatus.NOT_FOUND);
+      }
+
+      return run;
+    } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Failed to get evaluation run: ${error.message}`);
+      throw new HttpException(
+        `Evaluation run retrieval failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('runs/:id/compare/:baselineId')
+  @ApiOperation({
+    summary: 'Compare an evaluation run to a baseline',
+    description:
+      'Metric deltas (run minus baseline) and the examples whose recall, reciprocal rank or groundedness changed',
+  })
+  @ApiParam({ name: 'id', description: 'Run ID' })
+  @ApiParam({ name: 'baselineId', description: 'Baseline run ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Comparison computed',
+    type: EvaluationRunComparisonDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Run not found or not completed',
+  })
+  async compareRuns(
+    @Param('id') id: string,
+    @Param('baselineId') baselineId: string,
+  ): Promise<EvaluationRunComparisonDto> {
+    try {
+      const comparison = await this.evaluationService.compareRuns(
+        id,
+        baselineId,
+      );
+
+      if (!comparison) {
+        throw new HttpException(
+          'Run not found or not completed',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      return comparison;
+    } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Failed to compare evaluation runs: ${error.message}`);
+      throw new HttpException(
+        `Evaluation run comparison failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Inline examples win; dataset files are only read from the dataset directory
+   */
+  private async resolveExamples(
+    body: RunEvaluationDto,
+  ): Promise<GoldenExampleDto[]> {
+    if (body.examples?.length) {
+      return body.examples;
+    }
+
+    if (!body.datasetPath) {
+      throw new HttpException(
+        'Either examples or datasetPath is required',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const datasetDir = resolve(
+      this.configService.get<string>('EVALUATION_DATASET_DIR') || 'evaluation',
+    );
+    const datasetPath = resolve(datasetDir, body.datasetPath);
+    const relativePath = relative(datasetDir, datasetPath);
+    if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      throw new HttpException(
+        'datasetPath must be inside the evaluation dataset directory',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    try {
+      return await this.evaluationService.loadDataset(datasetPath);
+    } catch (error: any) {
+      throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    }
+  }
+}
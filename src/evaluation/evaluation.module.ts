@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { EvaluationController } from './evaluation.controller';
+import { EvaluationService } from './evaluation.service';
+import { DocumentsModule } from '../document/document.module';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { UsageModule } from '../usage/usage.module';
+
+@Module({
+  imports: [DocumentsModule, PrismaModule, UsageModule],
+  controllers: [EvaluationController],
+  providers: [EvaluationService],
+  exports: [EvaluationService],
+})
+export class EvaluationModule {}
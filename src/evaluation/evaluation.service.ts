@@ -0,0 +1,395 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { readFile } from 'fs/promises';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SearchService } from '../document/services/search.service';
+import { RagService } from '../document/services/rag.service';
+import {
+  LLM_PROVIDER,
+  LlmProvider,
+} from '../document/llm/llm-provider.interface';
+import { lexicalOverlap, tokenize } from '../document/utils/text.utils';
+import { UsageService } from '../usage/usage.service';
+import {
+  EvaluationExampleResultDto,
+  EvaluationMetricsDto,
+  EvaluationRunComparisonDto,
+  EvaluationRunDto,
+  EvaluationRunStatus,
+  GoldenExampleDto,
+} from './dto/evaluation.dto';
+
+/**
+ * Stored run row; the JSON columns are typed by the DTO they were written from
+ */
+interface EvaluationRunRecord {
+  id: string;
+  name: string | null;
+  dataset: string;
+  status: string;
+  config: unknown;
+  metrics: unknown;
+  results?: unknown;
+  error: string | null;
+  startedAt: Date;
+  completedAt: Date | null;
+}
+
+export interface EvaluationOptions {
+  name?: string;
+  /** Dataset path or "inline", stored with the run */
+  dataset: string;
+  k: number;
+  similarityThreshold: number;
+  generateAnswers: boolean;
+}
+
+@Injectable()
+export class EvaluationService {
+  private readonly logger = new Logger(EvaluationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private searchService: SearchService,
+    private ragService: RagService,
+    private configService: ConfigService,
+    private usage: UsageService,
+    @Inject(LLM_PROVIDER) private llm: LlmProvider,
+  ) {}
+
+  /**
+   * Read and validate a JSONL golden dataset (one example per line)
+   */
+  async loadDataset(path: string): Promise<GoldenExampleDto[]> {
+    const content = await readFile(path, 'utf-8');
+    const examples: GoldenExampleDto[] = [];
+
+    const lines = content.split('\n');
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index].trim();
+      if (!line) {
+        continue;
+      }
+
+      let example: GoldenExampleDto;
+      try {
+        example = plainToInstance(GoldenExampleDto, JSON.parse(line));
+      } catch (error: any) {
+        throw new Error(`Invalid JSON on line ${index + 1}: ${error.message}`);
+      }
+
+      const errors = await validate(example);
+      if (errors.length > 0) {
+        const messages = errors.flatMap((e) =>
+          Object.values(e.constraints || {}),
+        );
+        throw new Error(
+          `Invalid example on line ${index + 1}: ${messages.join('; ')}`,
+        );
+      }
+
+      examples.push({ ...example, id: example.id || `line-${index + 1}` });
+    }
+
+    if (examples.length === 0) {
+      throw new Error(`Dataset ${path} contains no examples`);
+    }
+    return examples;
+  }
+
+  /**
+   * Run every example through search (and optionally RAG) and store the results as a run
+   */
+  async runEvaluation(
+    examples: GoldenExampleDto[],
+    options: EvaluationOptions,
+  ): Promise<EvaluationRunDto> {
+    const run = await this.prisma.evaluationRun.create({
+      data: {
+        name: options.name,
+        dataset: options.dataset,
+        status: EvaluationRunStatus.RUNNING,
+        config: {
+          k: options.k,
+          similarityThreshold: options.similarityThreshold,
+          generateAnswers: options.generateAnswers,
+          llmProvider: this.llm.name,
+          llmModel: this.llm.model,
+          reranker: this.configService.get<string>('RERANKER') || 'none',
+          embeddingProvider:
+            this.configService.get<string>('EMBEDDING_PROVIDER') || 'openai',
+        },
+      },
+    });
+
+    this.logger.log(
+      `Evaluation run ${run.id} started: ${examples.length} examples from ${options.dataset}`,
+    );
+
+    try {
+      // Model calls of the run are marked here, not by anything a client can send
+      const results = await this.usage.run(
+        { userId: `eval_${run.id}`, evaluation: true },
+        async () => {
+          const evaluated: EvaluationExampleResultDto[] = [];
+          for (const [index, example] of examples.entries()) {
+            evaluated.push(
+              await this.evaluateExample(example, index, run.id, options),
+            );
+          }
+          return evaluated;
+        },
+      );
+
+      const metrics = this.aggregate(results);
+      const completed = await this.prisma.evaluationRun.update({
+        where: { id: run.id },
+        data: {
+          status: EvaluationRunStatus.COMPLETED,
+          metrics: { ...metrics },
+          results: results.map((result) => ({ ...result })),
+          completedAt: new Date(),
+        },
+      });
+
+      this.logger.log(
+        `Evaluation run ${run.id} completed: recall@${options.k} ${metrics.recallAtK}, MRR ${metrics.mrr}, faithfulness ${metrics.faithfulness ?? '-'}`,
+      );
+      return this.toRunDto(completed);
+    } catch (error: any) {
+      this.logger.error(`Evaluation run ${run.id} failed: ${error.message}`);
+      await this.prisma.evaluationRun.update({
+        where: { id: run.id },
+        data: {
+          status: EvaluationRunStatus.FAILED,
+          error: error.message,
+          completedAt: new Date(),
+        },
+      });
+      throw new Error(`Evaluation failed: ${error.message}`);
+    }
+  }
+
+  async listRuns(limit: number = 20): Promise<EvaluationRunDto[]> {
+    const runs: EvaluationRunRecord[] =
+      await this.prisma.evaluationRun.findMany({
+        select: {
+          id: true,
+          name: true,
+          dataset: true,
+          status: true,
+          config: true,
+          metrics: true,
+          error: true,
+          startedAt: true,
+          completedAt: true,
+        },
+        orderBy: { startedAt: 'desc' },
+        take: limit,
+      });
+    return runs.map((run) => this.toRunDto(run));
+  }
+
+  async getRun(id: string): Promise<EvaluationRunDto | null> {
+    const run: EvaluationRunRecord | null =
+      await this.prisma.evaluationRun.findUnique({ where: { id } });
+    return run ? this.toRunDto(run) : null;
+  }
+
+  /**
+   * Metric deltas and per-example changes of a run against a baseline run
+   */
+  async compareRuns(
+    runId: string,
+    baselineId: string,
+  ): Promise<EvaluationRunComparisonDto | null> {
+    const [run, baseline] = await Promise.all([
+      this.getRun(runId),
+      this.getRun(baselineId),
+    ]);
+    if (!run?.metrics || !baseline?.metrics) {
+      return null;
+    }
+
+    const metricDeltas: Record<string, number> = {};
+    for (const [metric, value] of Object.entries(run.metrics)) {
+      const baselineValue =
+        baseline.metrics[metric as keyof EvaluationMetricsDto];
+      if (typeof value === 'number' && typeof baselineValue === 'number') {
+        metricDeltas[metric] = this.round(value - baselineValue);
+      }
+    }
+
+    const baselineResults = new Map(
+      (baseline.results || []).map((result) => [result.id, result]),
+    );
+    const changedExamples: EvaluationRunComparisonDto['changedExamples'] = [];
+    for (const result of run.results || []) {
+      const previous = baselineResults.get(result.id);
+      const change: EvaluationRunComparisonDto['changedExamples'][number] = {
+        id: result.id,
+        question: result.question,
+      };
+
+      for (const field of [
+        'recall',
+        'reciprocalRank',
+        'groundedness',
+      ] as const) {
+        if (result[field] !== previous?.[field]) {
+          change[field] = { baseline: previous?.[field], run: result[field] };
+        }
+      }
+
+      if (Object.keys(change).length > 2) {
+        changedExamples.push(change);
+      }
+    }
+
+    return { runId, baselineId, metricDeltas, changedExamples };
+  }
+
+  private async evaluateExample(
+    example: GoldenExampleDto,
+    index: number,
+    runId: string,
+    options: EvaluationOptions,
+  ): Promise<EvaluationExampleResultDto> {
+    const result: EvaluationExampleResultDto = {
+      id: example.id || `example-${index + 1}`,
+      question: example.question,
+      retrievedDocuments: [],
+      searchTime: 0,
+    };
+
+    try {
+      const searchStart = Date.now();
+      const search = await this.searchService.searchDocuments(
+        {
+          query: example.question,
+          limit: options.k,
+          threshold: options.similarityThreshold,
+        },
+        { log: false },
+      );
+      result.searchTime = Date.now() - searchStart;
+
+      const rankedFilenames = search.results.map((r) => r.documentFilename);
+      result.retrievedDocuments = Array.from(new Set(rankedFilenames));
+
+      const expected = example.expectedDocuments || [];
+      if (expected.length > 0) {
+        const found = expected.filter((document) =>
+          rankedFilenames.some((filename) =>
+            this.matchesDocument(filename, document),
+          ),
+        );
+        const firstRelevant = rankedFilenames.findIndex((filename) =>
+          expected.some((document) => this.matchesDocument(filename, document)),
+        );
+
+        result.recall = this.round(found.length / expected.length);
+        result.reciprocalRank =
+          firstRelevant >= 0 ? this.round(1 / (firstRelevant + 1)) : 0;
+      }
+
+      if (options.generateAnswers) {
+        const answerStart = Date.now();
+        const response = await this.ragService.generateAnswer({
+          question: example.question,
+          responseMode: example.responseMode,
+          similarityThreshold: options.similarityThreshold,
+          useCache: false,
+          userId: `eval_${runId}`,
+        });
+        result.answerTime = Date.now() - answerStart;
+        result.answer = response.answer;
+        result.groundedness = response.groundedness;
+
+        if (example.expectedAnswer) {
+          result.answerOverlap = this.round(
+            lexicalOverlap(
+              tokenize(example.expectedAnswer),
+              tokenize(response.answer),
+            ),
+          );
+        }
+      }
+    } catch (error: any) {
+      this.logger.warn(
+        `Evaluation example ${result.id} failed: ${error.message}`,
+      );
+      result.error = error.message;
+    }
+
+    return result;
+  }
+
+  private aggregate(
+    results: EvaluationExampleResultDto[],
+  ): EvaluationMetricsDto {
+    const succeeded = results.filter((result) => !result.error);
+    const values = (field: keyof EvaluationExampleResultDto) =>
+      succeeded
+        .map((result) => result[field])
+        .filter((value): value is number => typeof value === 'number');
+
+    const answerTimes = values('answerTime');
+    return {
+      examples: results.length,
+      recallAtK: this.mean(values('recall')) ?? 0,
+      mrr: this.mean(values('reciprocalRank')) ?? 0,
+      faithfulness: this.mean(values('groundedness')),
+      answerOverlap: this.mean(values('answerOverlap')),
+      searchLatencyP50: this.percentile(values('searchTime'), 0.5),
+      searchLatencyP95: this.percentile(values('searchTime'), 0.95),
+      answerLatencyP50:
+        answerTimes.length > 0 ? this.percentile(answerTimes, 0.5) : undefined,
+      answerLatencyP95:
+        answerTimes.length > 0 ? this.percentile(answerTimes, 0.95) : undefined,
+      errors: results.length - succeeded.length,
+    };
+  }
+
+  private toRunDto(run: EvaluationRunRecord): EvaluationRunDto {
+    return {
+      ...run,
+      config: run.config as Record<string, unknown>,
+      metrics: run.metrics as EvaluationMetricsDto | null,
+      results: run.results as EvaluationExampleResultDto[] | null | undefined,
+    };
+  }
+
+  /**
+   * Expected documents match a filename exactly or as a substring, ignoring case
+   */
+  private matchesDocument(filename: string, expected: string): boolean {
+    return filename.toLowerCase().includes(expected.toLowerCase());
+  }
+
+  private mean(values: number[]): number | undefined {
+    if (values.length === 0) {
+      return undefined;
+    }
+    return this.round(
+      values.reduce((sum, value) => sum + value, 0) / values.length,
+    );
+  }
+
+  /**
+   * Nearest-rank percentile
+   */
+  private percentile(values: number[], p: number): number {
+    if (values.length === 0) {
+      return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsNotEmpty,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum PromptTemplateStatus {
+  DRAFT = 'draft',
+  ACTIVE = 'active',
+  ARCHIVED = 'archived',
+  /** Withdrawn by a rollback; never restored by a later rollback */
+  ROLLED_BACK = 'rolled_back',
+}
+
+/** Matches any response mode or language */
+export const ANY_VARIANT = '*';
+
+export class CreatePromptTemplateDto {
+  @ApiPropertyOptional({
+    description: 'Response mode the template applies to, or * for all modes',
+    example: 'detailed',
+    default: ANY_VARIANT,
+  })
+  @IsOptional()
+  @IsString()
+  mode?: string = ANY_VARIANT;
+
+  @ApiPropertyOptional({
+    description:
+      'Response language the template applies to (en, ru, auto), or * for all languages',
+    example: '*',
+    default: ANY_VARIANT,
+  })
+  @IsOptional()
+  @IsString()
+  language?: string = ANY_VARIANT;
+
+  @ApiProperty({
+    description:
+      'System prompt. Placeholders: {{citationInstructions}}, {{modeInstructions}}, {{languageInstructions}}',
+    example:
+      "You are a health and longevity assistant based on Peter Attia's content.\n{{citationInstructions}}\n{{modeInstructions}}\n{{languageInstructions}}",
+  })
+  @IsString()
+  @IsNotEmpty()
+  systemPrompt: string;
+
+  @ApiProperty({
+    description:
+      'User prompt. Must contain {{question}} and {{context}} placeholders',
+    example:
+      'Question: {{question}}\n\nContext:\n\n{{context}}Answer using only the context.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  userPrompt: string;
+
+  @ApiPropertyOptional({
+    description: 'What changed in this version',
+    example: 'Ask for dosages to be quoted verbatim',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class ActivatePromptTemplateDto {
+  @ApiPropertyOptional({
+    description:
+      'Share of traffic (1-100) for this version. Below 100, the remaining traffic is split among the versions already active for the same mode and language (A/B test); 100 replaces them.',
+    example: 50,
+    minimum: 1,
+    maximum: 100,
+    default: 100,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  trafficWeight?: number = 100;
+}
+
+export class RollbackPromptTemplateDto {
+  @ApiPropertyOptional({
+    description: 'Response mode of the template slot, or *',
+    example: 'detailed',
+    default: ANY_VARIANT,
+  })
+  @IsOptional()
+  @IsString()
+  mode?: string = ANY_VARIANT;
+
+  @ApiPropertyOptional({
+    description: 'Response language of the template slot, or *',
+    example: '*',
+    default: ANY_VARIANT,
+  })
+  @IsOptional()
+  @IsString()
+  language?: string = ANY_VARIANT;
+}
+
+export class PromptTemplateDto {
+  @ApiProperty({ description: 'Template ID', example: 'clx123abc' })
+  id: string;
+
+  @ApiProperty({ description: 'Response mode or *', example: 'detailed' })
+  mode: string;
+
+  @ApiProperty({ description: 'Response language or *', example: '*' })
+  language: string;
+
+  @ApiProperty({
+    description: 'Version number within the mode/language slot',
+    example: 3,
+  })
+  version: number;
+
+  @ApiProperty({ description: 'System prompt template' })
+  systemPrompt: string;
+
+  @ApiProperty({ description: 'User prompt template' })
+  userPrompt: string;
+
+  @ApiPropertyOptional({ description: 'What changed in this version' })
+  description?: string | null;
+
+  @ApiProperty({
+    description: 'Lifecycle status',
+    enum: PromptTemplateStatus,
+    example: PromptTemplateStatus.ACTIVE,
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'Share of traffic while active (percent)',
+    example: 100,
+  })
+  trafficWeight: number;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: Date;
+
+  @ApiPropertyOptional({ description: 'Last activation timestamp' })
+  activatedAt?: Date | null;
+}
@@ -0,0 +1,359 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  ANY_VARIANT,
+  CreatePromptTemplateDto,
+  PromptTemplateDto,
+  PromptTemplateStatus,
+} from './dto/prompt-template.dto';
+import {
+  BUILTIN_PROMPT_VERSION,
+  DEFAULT_SYSTEM_PROMPT,
+  DEFAULT_USER_PROMPT,
+} from './prompt.defaults';
+
+export interface ResolvedPrompt {
+  /** Registry template ID, undefined for the built-in prompts */
+  templateId?: string;
+  /** Version label recorded with each answer, e.g. "detailed/*@v3" */
+  version: string;
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+@Injectable()
+export class PromptTemplateService {
+  private readonly logger = new Logger(PromptTemplateService.name);
+
+  // Active templates are read on every question, so keep them in memory briefly
+  private readonly cacheTtlMs = 60 * 1000;
+  private activeTemplates: PromptTemplateDto[] | null = null;
+  private activeTemplatesLoadedAt = 0;
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Pick the prompt for a mode and language. The most specific active slot wins
+   * (mode+language, mode, language, any); within a slot, versions split traffic
+   * by weight, with the assignment key (user ID) always mapping to the same version.
+   */
+  async resolve(
+    mode: string,
+    language: string,
+    assignmentKey: string,
+  ): Promise<ResolvedPrompt> {
+    const builtin: ResolvedPrompt = {
+      version: BUILTIN_PROMPT_VERSION,
+      systemPrompt: DEFAULT_SYSTEM_PROMPT,
+      userPrompt: DEFAULT_USER_PROMPT,
+    };
+
+    let active: PromptTemplateDto[];
+    try {
+      active = await this.getActiveTemplates();
+    } catch (error: any) {
+      this.logger.warn(
+        `Failed to load prompt templates, using built-in prompts: ${error.message}`,
+      );
+      return builtin;
+    }
+
+    const slots: Array<[string, string]> = [
+      [mode, language],
+      [mode, ANY_VARIANT],
+      [ANY_VARIANT, language],
+      [ANY_VARIANT, ANY_VARIANT],
+    ];
+
+    for (const [slotMode, slotLanguage] of slots) {
+      const candidates = active
+        .filter((t) => t.mode === slotMode && t.language === slotLanguage)
+        .sort((a, b) => a.version - b.version);
+      if (candidates.length === 0) {
+        continue;
+      }
+
+      const template = this.assignVariant(
+        candidates,
+        `${slotMode}/${slotLanguage}:${assignmentKey}`,
+      );
+      return {
+        templateId: template.id,
+        version: this.versionLabel(template),
+        systemPrompt: template.systemPrompt,
+        userPrompt: template.userPrompt,
+      };
+    }
+
+    return builtin;
+  }
+
+  /**
+   * Substitute {{placeholders}}. Lines holding only an empty placeholder are removed.
+   */
+  render(template: string, variables: Record<string, string>): string {
+    return template
+      .split('\n')
+      .filter((line) => {
+        const placeholder = line.trim().match(/^\{\{(\w+)\}\}$/);
+        return !placeholder || (variables[placeholder[1]] ?? '') !== '';
+      })
+      .join('\n')
+      .replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+        name in variables ? variables[name] : match,
+      );
+  }
+
+  /**
+   * Problems that would make a template unusable; empty if it is valid
+   */
+  validate(dto: CreatePromptTemplateDto): string[] {
+    const errors: string[] = [];
+    for (const placeholder of ['question', 'context']) {
+      if (!dto.userPrompt.includes(`{{${placeholder}}}`)) {
+        errors.push(`userPrompt must contain {{${placeholder}}}`);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Create a draft template as the next version of its mode/language slot
+   */
+  async createTemplate(
+    dto: CreatePromptTemplateDto,
+  ): Promise<PromptTemplateDto> {
+    const mode = dto.mode || ANY_VARIANT;
+    const language = dto.language || ANY_VARIANT;
+
+    try {
+      const latest = await this.prisma.promptTemplate.findFirst({
+        where: { mode, language },
+        orderBy: { version: 'desc' },
+      });
+
+      const template = await this.prisma.promptTemplate.create({
+        data: {
+          mode,
+          language,
+          version: (latest?.version || 0) + 1,
+          systemPrompt: dto.systemPrompt,
+          userPrompt: dto.userPrompt,
+          description: dto.description,
+          status: PromptTemplateStatus.DRAFT,
+        },
+      });
+
+      this.logger.log(
+        `Created prompt template ${this.versionLabel(template)} (${template.id})`,
+      );
+      return template;
+    } catch (error: any) {
+      this.logger.error(`Failed to create prompt template: ${error.message}`);
+      throw new Error(`Prompt template creation failed: ${error.message}`);
+    }
+  }
+
+  listTemplates(filter: {
+    mode?: string;
+    language?: string;
+    status?: string;
+  }): Promise<PromptTemplateDto[]> {
+    return this.prisma.promptTemplate.findMany({
+      where: {
+        mode: filter.mode,
+        language: filter.language,
+        status: filter.status,
+      },
+      orderBy: [{ mode: 'asc' }, { language: 'asc' }, { version: 'desc' }],
+    });
+  }
+
+  getTemplate(id: string): Promise<PromptTemplateDto | null> {
+    return this.prisma.promptTemplate.findUnique({ where: { id } });
+  }
+
+  /**
+   * Activate a template. With trafficWeight 100 it replaces the active versions of
+   * its slot; below 100 the other active versions share the remaining traffic.
+   */
+  async activateTemplate(
+    id: string,
+    trafficWeight: number = 100,
+  ): Promise<PromptTemplateDto | null> {
+    const template = await this.getTemplate(id);
+    if (!template) {
+      return null;
+    }
+
+    try {
+      const activated = await this.prisma.$transaction(async (tx) => {
+        const others: PromptTemplateDto[] = await tx.promptTemplate.findMany({
+          where: {
+            mode: template.mode,
+            language: template.language,
+            status: PromptTemplateStatus.ACTIVE,
+            id: { not: id },
+          },
+        });
+
+        const exclusive = trafficWeight >= 100 || others.length === 0;
+        if (exclusive) {
+          await tx.promptTemplate.updateMany({
+            where: { id: { in: others.map((other) => other.id) } },
+            data: { status: PromptTemplateStatus.ARCHIVED },
+          });
+        } else {
+          const othersTotal = others.reduce(
+            (sum, other) => sum + other.trafficWeight,
+            0,
+          );
+          for (const other of others) {
+            await tx.promptTemplate.update({
+              where: { id: other.id },
+              data: {
+                trafficWeight: Math.max(
+                  1,
+                  Math.round(
+                    (other.trafficWeight / othersTotal) * (100 - trafficWeight),
+                  ),
+                ),
+              },
+            });
+          }
+        }
+
+        return tx.promptTemplate.update({
+          where: { id },
+          data: {
+            status: PromptTemplateStatus.ACTIVE,
+            trafficWeight: exclusive ? 100 : trafficWeight,
+            activatedAt: new Date(),
+          },
+        });
+      });
+
+      this.invalidateCache();
+      this.logger.log(
+        `Activated prompt template ${this.versionLabel(activated)} with ${activated.trafficWeight}% of traffic`,
+      );
+      return activated;
+    } catch (error: any) {
+      this.logger.error(`Failed to activate prompt template: ${error.message}`);
+      throw new Error(`Prompt template activation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Withdraw the active versions of a slot and reactivate the version that was live before them.
+   * Returns the reactivated template, or null if the slot now falls back to a broader one.
+   */
+  async rollback(
+    mode: string,
+    language: string,
+  ): Promise<PromptTemplateDto | null> {
+    try {
+      const restored = await this.prisma.$transaction(async (tx) => {
+        const current: PromptTemplateDto[] = await tx.promptTemplate.findMany({
+          where: { mode, language, status: PromptTemplateStatus.ACTIVE },
+        });
+
+        const previous: PromptTemplateDto | null =
+          await tx.promptTemplate.findFirst({
+            where: {
+              mode,
+              language,
+              status: PromptTemplateStatus.ARCHIVED,
+              activatedAt: { not: null },
+            },
+            orderBy: { activatedAt: 'desc' },
+          });
+
+        await tx.promptTemplate.updateMany({
+          where: { id: { in: current.map((template) => template.id) } },
+          data: { status: PromptTemplateStatus.ROLLED_BACK },
+        });
+
+        if (!previous) {
+          return null;
+        }
+
+        return tx.promptTemplate.update({
+          where: { id: previous.id },
+          data: {
+            status: PromptTemplateStatus.ACTIVE,
+            trafficWeight: 100,
+            activatedAt: new Date(),
+          },
+        });
+      });
+
+      this.invalidateCache();
+      this.logger.log(
+        `Rolled back prompt templates for ${mode}/${language} to ${restored ? this.versionLabel(restored) : 'fallback'}`,
+      );
+      return restored;
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to roll back prompt templates: ${error.message}`,
+      );
+      throw new Error(`Prompt template rollback failed: ${error.message}`);
+    }
+  }
+
+  private async getActiveTemplates(): Promise<PromptTemplateDto[]> {
+    if (
+      this.activeTemplates &&
+      Date.now() - this.activeTemplatesLoadedAt < this.cacheTtlMs
+    ) {
+      return this.activeTemplates;
+    }
+
+    const templates = await this.prisma.promptTemplate.findMany({
+      where: { status: PromptTemplateStatus.ACTIVE },
+    });
+    this.activeTemplates = templates;
+    this.activeTemplatesLoadedAt = Date.now();
+    return templates;
+  }
+
+  private invalidateCache(): void {
+    this.activeTemplates = null;
+  }
+
+  /**
+   * Deterministic weighted choice: hash the key into [0, total weight)
+   */
+  private assignVariant(
+    candidates: PromptTemplateDto[],
+    key: string,
+  ): PromptTemplateDto {
+    const totalWeight = candidates.reduce(
+      (sum, template) => sum + template.trafficWeight,
+      0,
+    );
+    const bucket =
+      parseInt(
+        createHash('md5').update(key).digest('hex').substring(0, 8),
+        16,
+      ) % Math.max(totalWeight, 1);
+
+    let cumulative = 0;
+    for (const template of candidates) {
+      cumulative += template.trafficWeight;
+      if (bucket < cumulative) {
+        return template;
+      }
+    }
+    return candidates[candidates.length - 1];
+  }
+
+  private versionLabel(template: {
+    mode: string;
+    language: string;
+    version: number;
+  }): string {
+    return `${template.mode}/${template.language}@v${template.version}`;
+  }
+}
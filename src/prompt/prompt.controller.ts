@@ -0,0 +1,202 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Body,
+  Logger,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+} from '@nestjs/swagger';
+import { PromptTemplateService } from './prompt-template.service';
+import {
+  ActivatePromptTemplateDto,
+  CreatePromptTemplateDto,
+  PromptTemplateDto,
+  RollbackPromptTemplateDto,
+} from './dto/prompt-template.dto';
+
+@ApiTags('Prompts')
+@Controller('prompts')
+export class PromptController {
+  private readonly logger = new Logger(PromptController.name);
+
+  constructor(private readonly promptTemplateService: PromptTemplateService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a prompt template version',
+    description:
+      'Create a draft as the next version for its mode/language slot. Activate it to put it live.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Template created',
+    type: PromptTemplateDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid template' })
+  async createTemplate(
+    @Body() body: CreatePromptTemplateDto,
+  ): Promise<PromptTemplateDto> {
+    const errors = this.promptTemplateService.validate(body);
+    if (errors.length > 0) {
+      throw new HttpException(errors.join('; '), HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      return await this.promptTemplateService.createTemplate(body);
+    } catch (error: any) {
+      this.logger.error(`Failed to create prompt template: ${error.message}`);
+      throw new HttpException(
+        `Prompt template creation failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List prompt templates',
+    description:
+      'List template versions, optionally filtered by slot and status',
+  })
+  @ApiQuery({ name: 'mode', required: false })
+  @ApiQuery({ name: 'language', required: false })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'Templates retrieved successfully',
+    type: [PromptTemplateDto],
+  })
+  async listTemplates(
+    @Query('mode') mode?: string,
+    @Query('language') language?: string,
+    @Query('status') status?: string,
+  ): Promise<PromptTemplateDto[]> {
+    try {
+      return await this.promptTemplateService.listTemplates({
+        mode,
+        language,
+        status,
+      });
+    } catch (error: any) {
+      this.logger.error(`Failed to list prompt templates: ${error.message}`);
+      throw new HttpException(
+        `Prompt template listing failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a prompt template version' })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template retrieved successfully',
+    type: PromptTemplateDto,
+  })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async getTemplate(@Param('id') id: string): Promise<PromptTemplateDto> {
+    try {
+      const template = await this.promptTemplateService.getTemplate(id);
+
+      if (!template) {
+        throw new HttpException('Template not found', HttpStatus.NOT_FOUND);
+      }
+
+      return template;
+    } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Failed to get prompt template: ${error.message}`);
+      throw new HttpException(
+        `Prompt template retrieval failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/activate')
+  @ApiOperation({
+    summary: 'Activate a prompt template version',
+    description:
+      'Put a version live for its slot. A trafficWeight below 100 runs it as an A/B test alongside the versions already active.',
+  })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template activated',
+    type: PromptTemplateDto,
+  })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async activateTemplate(
+    @Param('id') id: string,
+    @Body() body: ActivatePromptTemplateDto,
+  ): Promise<PromptTemplateDto> {
+    try {
+      const template = await this.promptTemplateService.activateTemplate(
+        id,
+        body.trafficWeight,
+      );
+
+      if (!template) {
+        throw new HttpException('Template not found', HttpStatus.NOT_FOUND);
+      }
+
+      return template;
+    } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Failed to activate prompt template: ${error.message}`);
+      throw new HttpException(
+        `Prompt template activation failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('rollback')
+  @ApiOperation({
+    summary: 'Roll back a prompt template slot',
+    description:
+      'Withdraw the active versions for a mode/language slot and restore the version that was live before them',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Restored template, or null if the slot now falls back to broader templates or the built-in prompts',
+  })
+  async rollback(
+    @Body() body: RollbackPromptTemplateDto,
+  ): Promise<{ restored: PromptTemplateDto | null }> {
+    try {
+      return {
+        restored: await this.promptTemplateService.rollback(
+          body.mode || '*',
+          body.language || '*',
+        ),
+      };
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to roll back prompt templates: ${error.message}`,
+      );
+      throw new HttpException(
+        `Prompt template rollback failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
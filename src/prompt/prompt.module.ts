@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PromptController } from './prompt.controller';
+import { PromptTemplateService } from './prompt-template.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [PromptController],
+  providers: [PromptTemplateService],
+  exports: [PromptTemplateService],
+})
+export class PromptModule {}
@@ -1,4 +1,5 @@
 import {
+  IsArray,
   IsString,
   IsNumber,
   IsOptional,
@@ -50,6 +51,20 @@ export class TelegramChat {
   last_name?: string;
 }
 
+export class TelegramInlineKeyboardButton {
+  @IsString()
+  text: string;
+
+  @IsOptional()
+  @IsString()
+  callback_data?: string;
+}
+
+export class TelegramInlineKeyboardMarkup {
+  @IsArray()
+  inline_keyboard: TelegramInlineKeyboardButton[][];
+}
+
 export class TelegramMessage {
   @IsNumber()
   message_id: number;
@@ -68,6 +83,32 @@ export class TelegramMessage {
   @IsOptional()
   @IsString()
   text?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TelegramInlineKeyboardMarkup)
+  reply_markup?: TelegramInlineKeyboardMarkup;
+}
+
+/**
+ * Sent when a user taps an inline keyboard button
+ */
+export class TelegramCallbackQuery {
+  @IsString()
+  id: string;
+
+  @ValidateNested()
+  @Type(() => TelegramUser)
+  from: TelegramUser;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TelegramMessage)
+  message?: TelegramMessage;
+
+  @IsOptional()
+  @IsString()
+  data?: string;
 }
 
 export class TelegramWebhookDto {
@@ -78,4 +119,9 @@ export class TelegramWebhookDto {
   @ValidateNested()
   @Type(() => TelegramMessage)
   message?: TelegramMessage;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TelegramCallbackQuery)
+  callback_query?: TelegramCallbackQuery;
 }
@@ -0,0 +1,80 @@
+import { ConfigService } from '@nestjs/config';
+import { TelegramService } from './telegram.service';
+import { RagService } from '../document/services/rag.service';
+import { ConversationService } from '../document/services/conversation.service';
+import { FeedbackService } from '../document/services/feedback.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('TelegramService', () => {
+  let service: TelegramService;
+  let sendMessage: jest.Mock<
+    Promise<unknown>,
+    [number, string, Record<string, unknown>]
+  >;
+
+  const sentText = () => sendMessage.mock.calls[0][1];
+
+  beforeEach(() => {
+    service = new TelegramService(
+      new ConfigService({
+        TELEGRAM_BOT_TOKEN: `123456789:${'A'.repeat(35)}`,
+      }),
+      {} as RagService,
+      {} as ConversationService,
+      {} as FeedbackService,
+      {} as PrismaService,
+    );
+    sendMessage = jest
+      .fn<Promise<unknown>, [number, string, Record<string, unknown>]>()
+      .mockResolvedValue({});
+    service['bot'] = { sendMessage };
+  });
+
+  describe('sendMessage', () => {
+    it('escapes HTML and converts Markdown emphasis', async () => {
+      await service.sendMessage(1, 'LDL <70 & *low* ApoB');
+
+      expect(sentText()).toBe('LDL &lt;70 &amp; <i>low</i> ApoB');
+      expect(sendMessage.mock.calls[0][2]).toMatchObject({
+        parse_mode: 'HTML',
+      });
+    });
+
+    it('sends comparison tables as escaped preformatted blocks', async () => {
+      const answer = [
+        'Both lower glucose [1].',
+        '',
+        '| Marker | Zone 2 | VO2 max |',
+        '|---|---|---|',
+        '| HbA1c | <5.7% | >6.5% & rising |',
+        '',
+        'Pick *both*.',
+      ].join('\n');
+
+      await service['sendRagResponse'](
+        1,
+        {
+          question: 'Zone 2 or VO2 max?',
+          answer,
+          confidence: 0.9,
+          totalTime: 2000,
+          context: [],
+          sources: [],
+          contextCount: 0,
+        },
+        'comparison',
+      );
+
+      const text = sentText();
+      expect(text).toContain(
+        [
+          '<pre>| Marker | Zone 2 | VO2 max |',
+          '|---|---|---|',
+          '| HbA1c | &lt;5.7% | &gt;6.5% &amp; rising |</pre>',
+        ].join('\n'),
+      );
+      expect(text).not.toContain('&lt;pre&gt;');
+      expect(text).toContain('Pick <i>both</i>.');
+    });
+  });
+});
@@ -1,10 +1,29 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as TelegramBot from 'node-telegram-bot-api';
-import { TelegramWebhookDto } from './dto/telegram.dto';
+import { TelegramCallbackQuery, TelegramWebhookDto } from './dto/telegram.dto';
 import { RagService } from '../document/services/rag.service';
+import { ConversationService } from '../document/services/conversation.service';
+import { FeedbackService } from '../document/services/feedback.service';
 import { PrismaService } from '../../prisma/prisma.service';
-import { ResponseMode } from '../document/dto/rag.dto';
+import {
+  ClaimSupport,
+  GuardrailAction,
+  ResponseMode,
+  UnsupportedClaimPolicy,
+} from '../document/dto/rag.dto';
+import { FeedbackRating } from '../document/dto/feedback.dto';
+import { RetrievalMode } from '../document/dto/search.dto';
+import { AUTO_LANGUAGE } from '../document/locales';
+import { CircuitOpenError } from '../document/llm/resilient-openai.client';
+
+type QuestionMode =
+  | 'quick'
+  | 'detailed'
+  | 'auto'
+  | 'protocol'
+  | 'comparison'
+  | 'timeline';
 
 @Injectable()
 export class TelegramService implements OnModuleInit {
@@ -12,9 +31,16 @@ export class TelegramService implements OnModuleInit {
   private bot: any;
   private readonly botToken: string;
 
+  // Callback data of suggested question buttons: "sq:<index>"; the question is the button text
+  private readonly suggestionCallbackPrefix = 'sq:';
+  // Callback data of rating buttons: "fb:<responseId>:up" or "fb:<responseId>:down"
+  private readonly feedbackCallbackPrefix = 'fb:';
+
   constructor(
     private configService: ConfigService,
     private ragService: RagService,
+    private conversationService: ConversationService,
+    private feedbackService: FeedbackService,
     private prisma: PrismaService,
   ) {
     this.botToken = this.configService.get<string>('TELEGRAM_BOT_TOKEN') || '';
@@ -75,6 +101,90 @@ export class TelegramService implements OnModuleInit {
         update.message.text,
       );
     }
+
+    if (update.callback_query) {
+      await this.handleCallbackQuery(update.callback_query);
+    }
+  }
+
+  private async handleCallbackQuery(
+    callbackQuery: TelegramCallbackQuery,
+  ): Promise<void> {
+    const data = callbackQuery.data || '';
+    const chatId = callbackQuery.message?.chat.id;
+
+    try {
+      if (chatId && data.startsWith(this.feedbackCallbackPrefix)) {
+        await this.handleFeedbackCallback(callbackQuery, chatId);
+        return;
+      }
+
+      // Stop the button's loading indicator right away; answering can take a while
+      await this.bot.answerCallbackQuery(callbackQuery.id);
+
+      if (!chatId || !data.startsWith(this.suggestionCallbackPrefix)) {
+        return;
+      }
+
+      const question = callbackQuery.message?.reply_markup?.inline_keyboard
+        .flat()
+        .find((button) => button.callback_data === data)?.text;
+      if (!question) {
+        return;
+      }
+
+      this.logger.log(
+        `Suggested question from ${callbackQuery.from.first_name} (chat: ${chatId}): ${question}`,
+      );
+
+      // Show what was asked, since tapping a button leaves no message in the chat
+      await this.sendMessage(chatId, `❓ ${question}`);
+      await this.handleQuestion(
+        chatId,
+        callbackQuery.from.first_name,
+        question,
+      );
+    } catch (error) {
+      this.logger.error('Error handling callback query:', error.message);
+      if (chatId) {
+        await this.sendErrorMessage(chatId);
+      }
+    }
+  }
+
+  /**
+   * Record a 👍/👎 rating and confirm it with a short notification
+   */
+  private async handleFeedbackCallback(
+    callbackQuery: TelegramCallbackQuery,
+    chatId: number,
+  ): Promise<void> {
+    const [responseId, vote] = (callbackQuery.data || '')
+      .substring(this.feedbackCallbackPrefix.length)
+      .split(':');
+    const isRussian = await this.isRussianSpeakingUser(chatId);
+
+    const feedback = await this.feedbackService.submitFeedback(responseId, {
+      rating: vote === 'up' ? FeedbackRating.POSITIVE : FeedbackRating.NEGATIVE,
+      userId: `tg_${chatId}`,
+    });
+
+    let text: string;
+    if (!feedback) {
+      text = isRussian
+        ? 'Не удалось найти этот ответ'
+        : 'This answer could not be found';
+    } else if (feedback.rating === FeedbackRating.POSITIVE) {
+      text = isRussian
+        ? '👍 Спасибо за оценку!'
+        : '👍 Thanks for the feedback!';
+    } else {
+      text = isRussian
+        ? '👎 Спасибо! Мы используем это, чтобы улучшить ответы'
+        : '👎 Thanks! We use this to improve the answers';
+    }
+
+    await this.bot.answerCallbackQuery(callbackQuery.id, { text });
   }
 
   private async handleTextMessage(
@@ -140,9 +250,51 @@ export class TelegramService implements OnModuleInit {
           await this.sendMessage(chatId, msg);
         }
         break;
+      case '/protocol':
+        if (args.length > 0) {
+          const question = args.join(' ');
+          await this.handleQuestion(chatId, userName, question, 'protocol');
+        } else {
+          const msg = isRussian
+            ? '❓ Пожалуйста, задайте вопрос после команды /protocol\n\nПример: /protocol Как улучшить сон?'
+            : '❓ Please ask a question after the /protocol command\n\nExample: /protocol How to improve sleep?';
+          await this.sendMessage(chatId, msg);
+        }
+        break;
+      case '/compare':
+        if (args.length > 0) {
+          const question = args.join(' ');
+          await this.handleQuestion(chatId, userName, question, 'comparison');
+        } else {
+          const msg = isRussian
+            ? '❓ Пожалуйста, укажите два варианта после команды /compare\n\nПример: /compare зона 2 или VO2 max тренировки'
+            : '❓ Please name two options after the /compare command\n\nExample: /compare zone 2 vs VO2 max training';
+          await this.sendMessage(chatId, msg);
+        }
+        break;
+      case '/timeline':
+        if (args.length > 0) {
+          const question = args.join(' ');
+          await this.handleQuestion(chatId, userName, question, 'timeline');
+        } else {
+          const msg = isRussian
+            ? '❓ Пожалуйста, укажите тему после команды /timeline\n\nПример: /timeline метформин'
+            : '❓ Please name a topic after the /timeline command\n\nExample: /timeline metformin';
+          await this.sendMessage(chatId, msg);
+        }
+        break;
       case '/stats':
         await this.sendUserStats(chatId, isRussian);
         break;
+      case '/new':
+        await this.conversationService.createConversation(`tg_${chatId}`);
+        await this.sendMessage(
+          chatId,
+          isRussian
+            ? '🆕 Начат новый диалог. Предыдущие вопросы больше не учитываются.'
+            : '🆕 Started a new conversation. Previous questions are no longer taken into account.',
+        );
+        break;
       default:
         const unknownMsg = isRussian 
           ? '❓ Неизвестная команда. Используйте /help для списка команд.'
@@ -155,7 +307,7 @@ export class TelegramService implements OnModuleInit {
     chatId: number,
     userName: string,
     question: string,
-    mode: 'quick' | 'detailed' | 'auto' = 'auto',
+    mode: QuestionMode = 'auto',
   ): Promise<void> {
     // Show typing indicator
     await this.bot.sendChatAction(chatId, 'typing');
@@ -165,39 +317,68 @@ export class TelegramService implements OnModuleInit {
     try {
       // Determine response mode
       let responseMode: ResponseMode;
-      let maxContextChunks: number;
+      let contextTokenBudget: number;
       let similarityThreshold: number;
 
       if (mode === 'quick') {
         responseMode = ResponseMode.CONCISE;
-        maxContextChunks = 3;
+        contextTokenBudget = 2000;
         similarityThreshold = 0.3;
       } else if (mode === 'detailed') {
         responseMode = ResponseMode.DETAILED;
-        maxContextChunks = 8;
+        contextTokenBudget = 4000;
+        similarityThreshold = 0.2;
+      } else if (mode === 'protocol') {
+        responseMode = ResponseMode.PROTOCOL;
+        contextTokenBudget = 3000;
+        similarityThreshold = 0.25;
+      } else if (mode === 'comparison') {
+        // Both options need coverage, so retrieve broadly
+        responseMode = ResponseMode.COMPARISON;
+        contextTokenBudget = 4000;
+        similarityThreshold = 0.2;
+      } else if (mode === 'timeline') {
+        // A timeline is only as long as the number of episodes in the context
+        responseMode = ResponseMode.TIMELINE;
+        contextTokenBudget = 5000;
         similarityThreshold = 0.2;
       } else {
         // Auto mode - determine based on question length
         if (question.length < 50) {
           responseMode = ResponseMode.CONCISE;
-          maxContextChunks = 3;
+          contextTokenBudget = 2000;
           similarityThreshold = 0.3;
         } else {
           responseMode = ResponseMode.DETAILED;
-          maxContextChunks = 5;
+          contextTokenBudget = 3000;
           similarityThreshold = 0.25;
         }
       }
 
+      // Terse questions ("zone 2?") embed poorly on their own, so expand them
+      const isShortQuestion = question.trim().split(/\s+/).length <= 4;
+
+      // Keep follow-up questions in the same conversation
+      const conversation =
+        await this.conversationService.getOrCreateActiveConversation(userId);
+
       // Generate RAG response
       const ragResponse = await this.ragService.generateAnswer({
         question,
         responseMode,
-        maxContextChunks,
+        contextTokenBudget,
+        neighborChunks: 1,
         similarityThreshold,
-        language: 'auto' as any,
+        retrievalMode: isShortQuestion
+          ? RetrievalMode.MULTI_QUERY
+          : RetrievalMode.SINGLE,
+        hyde: isShortQuestion,
+        language: AUTO_LANGUAGE,
         includeSources: true,
         userId,
+        conversationId: conversation.id,
+        // Never show users claims (e.g. dosages) that the documents do not back up
+        unsupportedClaims: UnsupportedClaimPolicy.STRIP,
       });
 
       // Format and send response
@@ -207,6 +388,16 @@ export class TelegramService implements OnModuleInit {
       await this.logUserInteraction(userId, userName, question, ragResponse);
 
     } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        await this.sendMessage(
+          chatId,
+          this.detectRussianLanguage(question)
+            ? '🔌 Сервис ответов временно недоступен. Пожалуйста, попробуйте через минуту.'
+            : '🔌 The answer service is temporarily unavailable. Please try again in a minute.',
+        );
+        return;
+      }
+
       this.logger.error(`RAG generation failed for user ${userName}:`, error.message);
       await this.sendErrorMessage(chatId);
     }
@@ -215,9 +406,21 @@ export class TelegramService implements OnModuleInit {
   private async sendRagResponse(
     chatId: number,
     ragResponse: any,
-    mode: string,
+    mode: QuestionMode,
   ): Promise<void> {
-    let message = ragResponse.answer;
+    // Guardrail replies (emergencies, self-harm, personal dosing) go out without sources or scores
+    if (
+      ragResponse.guardrail?.action === GuardrailAction.REDIRECT ||
+      ragResponse.guardrail?.action === GuardrailAction.REFUSE
+    ) {
+      await this.sendMessage(chatId, ragResponse.answer);
+      return;
+    }
+
+    let message =
+      mode === 'comparison'
+        ? this.formatTables(ragResponse.answer)
+        : ragResponse.answer;
 
     // Detect language for interface elements
     const isRussian = this.detectRussianLanguage(ragResponse.question || '');
@@ -253,15 +456,72 @@ export class TelegramService implements OnModuleInit {
     
     message += `\n\n${confidenceEmoji} ${confidenceLabel}: ${Math.round(ragResponse.confidence * 100)}%`;
     message += ` | ⏱️ ${Math.round(ragResponse.totalTime / 1000)}${timeUnit}`;
+
+    const strippedClaims = (ragResponse.claims || []).filter(
+      (claim: any) => claim.status === ClaimSupport.UNSUPPORTED,
+    ).length;
+    if (strippedClaims > 0) {
+      message += isRussian
+        ? `\n⚠️ Удалено утверждений без подтверждения в документах: ${strippedClaims}`
+        : `\n⚠️ Removed ${strippedClaims} statement(s) not supported by the documents`;
+    }
     
     if (mode !== 'auto') {
-      const modeLabel = isRussian 
-        ? (mode === 'quick' ? 'Быстро' : 'Подробно')
-        : (mode === 'quick' ? 'Quick' : 'Detailed');
-      message += ` | 🎯 ${modeLabel}`;
+      const modeLabels: Record<
+        Exclude<QuestionMode, 'auto'>,
+        [string, string]
+      > = {
+        quick: ['Быстро', 'Quick'],
+        detailed: ['Подробно', 'Detailed'],
+        protocol: ['Протокол', 'Protocol'],
+        comparison: ['Сравнение', 'Comparison'],
+        timeline: ['Хронология', 'Timeline'],
+      };
+      const [ruLabel, enLabel] = modeLabels[mode];
+      message += ` | 🎯 ${isRussian ? ruLabel : enLabel}`;
     }
 
-    await this.sendMessage(chatId, message);
+    // Suggested follow-ups become buttons, so users can explore without typing,
+    // followed by a row to rate the answer. Replies without context are not logged,
+    // so there is nothing to attach a rating to.
+    const suggestions: string[] = ragResponse.suggestedQuestions || [];
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = suggestions.map(
+      (suggestion, index) => [
+        {
+          text: suggestion,
+          callback_data: `${this.suggestionCallbackPrefix}${index}`,
+        },
+      ],
+    );
+    if (ragResponse.responseId && ragResponse.contextCount > 0) {
+      keyboard.push([
+        {
+          text: '👍',
+          callback_data: `${this.feedbackCallbackPrefix}${ragResponse.responseId}:up`,
+        },
+        {
+          text: '👎',
+          callback_data: `${this.feedbackCallbackPrefix}${ragResponse.responseId}:down`,
+        },
+      ]);
+    }
+
+    await this.sendMessage(
+      chatId,
+      message,
+      keyboard.length > 0 ? { inline_keyboard: keyboard } : undefined,
+    );
+  }
+
+  /**
+   * Wrap Markdown tables in <pre> so their columns stay aligned in Telegram.
+   * The table is escaped here, since convertToHtml leaves <pre> blocks as they are.
+   */
+  private formatTables(text: string): string {
+    return text.replace(
+      /(?:^[ \t]*\|.*\|[ \t]*(?:\n|$))+/gm,
+      (table) => `<pre>${this.escapeHtml(table.trimEnd())}</pre>\n`,
+    );
   }
 
   /**
@@ -392,20 +652,27 @@ export class TelegramService implements OnModuleInit {
         .replace(/\*\*([^*]+?)\*\*/g, '<b>$1</b>');
     }
 
-    // Escape HTML special characters first for regular text
-    let htmlText = text
+    // Preformatted blocks (see formatTables) are escaped where they are built;
+    // everything around them is escaped and converted here
+    return text
+      .split(/(<pre>[\s\S]*?<\/pre>)/)
+      .map((part, index) =>
+        index % 2 === 1
+          ? part
+          : this.escapeHtml(part)
+              // Convert *italic* to <i>italic</i>
+              .replace(/\*([^*]+?)\*/g, '<i>$1</i>')
+              // Convert **bold** to <b>bold</b> (if any remain)
+              .replace(/\*\*([^*]+?)\*\*/g, '<b>$1</b>'),
+      )
+      .join('');
+  }
+
+  private escapeHtml(text: string): string {
+    return text
       .replace(/&/g, '&amp;')
       .replace(/</g, '&lt;')
       .replace(/>/g, '&gt;');
-
-    // Convert our Markdown formatting to HTML
-    htmlText = htmlText
-      // Convert *italic* to <i>italic</i>
-      .replace(/\*([^*]+?)\*/g, '<i>$1</i>')
-      // Convert **bold** to <b>bold</b> (if any remain)
-      .replace(/\*\*([^*]+?)\*\*/g, '<b>$1</b>');
-
-    return htmlText;
   }
 
   private async sendWelcomeMessage(chatId: number, userName: string, isRussian: boolean = true): Promise<void> {
@@ -423,6 +690,10 @@ export class TelegramService implements OnModuleInit {
 • Просто задайте вопрос (например: "Что такое зона 2?")
 • /quick [вопрос] - краткий ответ
 • /detailed [вопрос] - подробный ответ
+• /protocol [вопрос] - пошаговый протокол
+• /compare [А или Б] - сравнение двух вариантов
+• /timeline [тема] - как менялись рекомендации
+• /new - начать новый диалог
 • /help - список всех команд
 
 Задайте мне любой вопрос! 🚀
@@ -440,6 +711,10 @@ I'm an AI health and longevity assistant based on <b>Peter Attia's</b> research.
 • Simply ask a question (e.g., "What is zone 2 training?")
 • /quick [question] - brief answer
 • /detailed [question] - comprehensive answer
+• /protocol [question] - step-by-step protocol
+• /compare [A vs B] - side-by-side comparison
+• /timeline [topic] - how the advice evolved
+• /new - start a new conversation
 • /help - list of all commands
 
 Ask me anything! 🚀
@@ -455,10 +730,14 @@ Ask me anything! 🚀
 <b>Основные команды:</b>
 • /start - приветствие и инструкции
 • /help - эта справка
+• /new - начать новый диалог (забыть предыдущие вопросы)
 
 <b>Режимы ответов:</b>
 • /quick [вопрос] - быстрый ответ (2-3 предложения)
 • /detailed [вопрос] - подробный ответ с объяснениями
+• /protocol [вопрос] - пошаговый чек-лист с частотой и дозировками
+• /compare [А или Б] - таблица сравнения двух вариантов
+• /timeline [тема] - как рекомендация менялась от эпизода к эпизоду
 
 <b>Информация:</b>
 • /stats - ваша статистика использования
@@ -469,17 +748,21 @@ Ask me anything! 🚀
 • "Какие добавки рекомендует Питер Аттиа?"
 • "Как правильно голодать?"
 
-<b>Совет:</b> Можете просто написать вопрос без команды - я автоматически выберу оптимальный режим ответа! 😊
+<b>Совет:</b> Можете просто написать вопрос без команды - я автоматически выберу оптимальный режим ответа! Уточняющие вопросы вроде "а какая дозировка?" я понимаю в контексте диалога. 😊
 ` : `
 📖 <b>Command Reference:</b>
 
 <b>Basic commands:</b>
 • /start - welcome and instructions
 • /help - this help
+• /new - start a new conversation (forget previous questions)
 
 <b>Response modes:</b>
 • /quick [question] - quick answer (2-3 sentences)
 • /detailed [question] - detailed answer with explanations
+• /protocol [question] - step-by-step checklist with frequencies and dosages
+• /compare [A vs B] - side-by-side table of two options
+• /timeline [topic] - how a recommendation evolved across episodes
 
 <b>Information:</b>
 • /stats - your usage statistics
@@ -490,7 +773,7 @@ Ask me anything! 🚀
 • "What supplements does Peter Attia recommend?"
 • "How to fast properly?"
 
-<b>Tip:</b> You can simply write a question without a command - I'll automatically choose the optimal response mode! 😊
+<b>Tip:</b> You can simply write a question without a command - I'll automatically choose the optimal response mode! Follow-ups like "and what about dosage?" are understood in the context of the conversation. 😊
 `;
 
     await this.sendMessage(chatId, helpMessage);
@@ -572,7 +855,11 @@ Ask me anything! 🚀
     }
   }
 
-  async sendMessage(chatId: number, text: string): Promise<void> {
+  async sendMessage(
+    chatId: number,
+    text: string,
+    replyMarkup?: TelegramBot.InlineKeyboardMarkup,
+  ): Promise<void> {
     try {
       // Convert Markdown formatting to HTML for more reliable parsing
       const htmlText = this.convertToHtml(text);
@@ -580,7 +867,8 @@ Ask me anything! 🚀
       // Send message with HTML formatting enabled
       await this.bot.sendMessage(chatId, htmlText, { 
         parse_mode: 'HTML',
-        disable_web_page_preview: true 
+        disable_web_page_preview: true,
+        reply_markup: replyMarkup,
       });
       this.logger.debug(`Message sent to chat ${chatId}: ${htmlText.substring(0, 100)}...`);
     } catch (error) {
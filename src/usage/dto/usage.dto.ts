@@ -0,0 +1,144 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum UsageGroupBy {
+  DAY = 'day',
+  USER = 'user',
+  MODE = 'mode',
+}
+
+export enum UsageOperation {
+  CHAT = 'chat',
+  CHAT_FAST = 'chat_fast',
+  EMBEDDING = 'embedding',
+}
+
+export class UsageRecordDto {
+  @ApiProperty({ description: 'Record ID' })
+  id: string;
+
+  @ApiPropertyOptional({
+    description: 'RAG response the call was made for',
+  })
+  responseId?: string;
+
+  @ApiPropertyOptional({ description: 'User who asked the question' })
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Response mode of the answer' })
+  responseMode?: string;
+
+  @ApiProperty({
+    description: 'Kind of model call',
+    enum: UsageOperation,
+  })
+  operation: string;
+
+  @ApiProperty({ description: 'Model reported by the API' })
+  model: string;
+
+  @ApiProperty({ description: 'Input tokens' })
+  promptTokens: number;
+
+  @ApiProperty({ description: 'Output tokens' })
+  completionTokens: number;
+
+  @ApiProperty({ description: 'Cost in USD from the model price table' })
+  costUsd: number;
+
+  @ApiProperty({ description: 'When the call was made' })
+  createdAt: Date;
+}
+
+export class ResponseUsageDto {
+  @ApiProperty({ description: 'RAG response ID' })
+  responseId: string;
+
+  @ApiProperty({ description: 'Total input tokens' })
+  promptTokens: number;
+
+  @ApiProperty({ description: 'Total output tokens' })
+  completionTokens: number;
+
+  @ApiProperty({ description: 'Total cost in USD' })
+  costUsd: number;
+
+  @ApiProperty({
+    description: 'Individual model calls',
+    type: [UsageRecordDto],
+  })
+  records: UsageRecordDto[];
+}
+
+export class CostReportRowDto {
+  @ApiProperty({
+    description:
+      'Day (YYYY-MM-DD), user ID or response mode; "unknown" for calls made outside a RAG answer',
+    example: '2026-10-19',
+  })
+  key: string;
+
+  @ApiProperty({ description: 'Distinct responses' })
+  responses: number;
+
+  @ApiProperty({ description: 'Model calls' })
+  calls: number;
+
+  @ApiProperty({ description: 'Input tokens' })
+  promptTokens: number;
+
+  @ApiProperty({ description: 'Output tokens' })
+  completionTokens: number;
+
+  @ApiProperty({ description: 'Cost in USD' })
+  costUsd: number;
+}
+
+export class CostReportDto {
+  @ApiProperty({ enum: UsageGroupBy })
+  groupBy: UsageGroupBy;
+
+  @ApiPropertyOptional({ description: 'Start of the period (inclusive)' })
+  from?: Date;
+
+  @ApiPropertyOptional({ description: 'End of the period (exclusive)' })
+  to?: Date;
+
+  @ApiProperty({ description: 'Total cost in USD for the period' })
+  totalCostUsd: number;
+
+  @ApiProperty({
+    type: [CostReportRowDto],
+    description: 'Cost per group, without evaluation runs',
+  })
+  rows: CostReportRowDto[];
+
+  @ApiPropertyOptional({
+    type: CostReportRowDto,
+    description:
+      'Model calls made by evaluation runs in the period; included in totalCostUsd',
+  })
+  evaluation?: CostReportRowDto;
+}
+
+export class UserBudgetDto {
+  @ApiProperty({ description: 'User ID' })
+  userId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Daily budget in USD (USER_DAILY_BUDGET_USD); unset means unlimited',
+  })
+  dailyBudgetUsd?: number;
+
+  @ApiProperty({ description: 'Spent since midnight UTC, in USD' })
+  spentTodayUsd: number;
+
+  @ApiPropertyOptional({ description: 'Remaining budget for today, in USD' })
+  remainingUsd?: number;
+
+  @ApiProperty({
+    description:
+      'Whether the budget is spent; questions are then answered with extractive quotes',
+  })
+  exceeded: boolean;
+}
@@ -0,0 +1,37 @@
+/** USD per 1M tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * OpenAI list prices; MODEL_PRICES (JSON, same shape) overrides or extends them
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+};
+
+/**
+ * Price of a model, matching dated snapshots to their base model by the longest
+ * prefix ("gpt-4o-2024-08-06" -> "gpt-4o"); unknown models are free
+ */
+export function findModelPrice(
+  prices: Record<string, ModelPrice>,
+  model: string,
+): ModelPrice | undefined {
+  const name = model.toLowerCase();
+  if (prices[name]) {
+    return prices[name];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter((key) => name.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
@@ -0,0 +1,160 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Logger,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+} from '@nestjs/swagger';
+import { UsageService } from './usage.service';
+import {
+  CostReportDto,
+  ResponseUsageDto,
+  UsageGroupBy,
+  UserBudgetDto,
+} from './dto/usage.dto';
+
+@ApiTags('Usage')
+@Controller('usage')
+export class UsageController {
+  private readonly logger = new Logger(UsageController.name);
+
+  constructor(private readonly usageService: UsageService) {}
+
+  @Get('costs')
+  @ApiOperation({
+    summary: 'Get token usage and cost',
+    description:
+      'Recorded token usage priced with the model price table, grouped by day, user or response mode. Calls made by evaluation runs are reported in their own `evaluation` row. Defaults to the last 30 days.',
+  })
+  @ApiQuery({ name: 'groupBy', required: false, enum: UsageGroupBy })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    description: 'ISO date, inclusive',
+  })
+  @ApiQuery({ name: 'to', required: false, description: 'ISO date, exclusive' })
+  @ApiResponse({
+    status: 200,
+    description: 'Costs retrieved successfully',
+    type: CostReportDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid groupBy or date' })
+  async getCosts(
+    @Query('groupBy') groupBy?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<CostReportDto> {
+    const grouping = (groupBy || UsageGroupBy.DAY) as UsageGroupBy;
+    if (!Object.values(UsageGroupBy).includes(grouping)) {
+      throw new HttpException(
+        `groupBy must be one of: ${Object.values(UsageGroupBy).join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    try {
+      return await this.usageService.getCostReport(
+        grouping,
+        this.parseDate('from', from),
+        this.parseDate('to', to),
+      );
+    } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Failed to get costs: ${error.message}`);
+      throw new HttpException(
+        `Cost report failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('responses/:responseId')
+  @ApiOperation({
+    summary: 'Get token usage of a RAG response',
+    description: 'Every model call made while answering, with its cost',
+  })
+  @ApiParam({ name: 'responseId', description: 'RAG response ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Usage retrieved successfully',
+    type: ResponseUsageDto,
+  })
+  @ApiResponse({ status: 404, description: 'No usage recorded' })
+  async getResponseUsage(
+    @Param('responseId') responseId: string,
+  ): Promise<ResponseUsageDto> {
+    try {
+      const usage = await this.usageService.getResponseUsage(responseId);
+
+      if (!usage) {
+        throw new HttpException(
+          'No usage recorded for this response',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      return usage;
+    } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Failed to get response usage: ${error.message}`);
+      throw new HttpException(
+        `Response usage retrieval failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('users/:userId/budget')
+  @ApiOperation({
+    summary: "Get a user's daily budget",
+    description:
+      'Spend since midnight UTC against USER_DAILY_BUDGET_USD; questions are refused once it is reached',
+  })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Budget retrieved successfully',
+    type: UserBudgetDto,
+  })
+  async getUserBudget(@Param('userId') userId: string): Promise<UserBudgetDto> {
+    try {
+      return await this.usageService.getUserBudget(userId);
+    } catch (error: any) {
+      this.logger.error(`Failed to get user budget: ${error.message}`);
+      throw new HttpException(
+        `User budget retrieval failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  private parseDate(name: string, value?: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new HttpException(
+        `${name} must be an ISO date`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return date;
+  }
+}
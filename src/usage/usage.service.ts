@@ -0,0 +1,379 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AsyncLocalStorage } from 'async_hooks';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  DEFAULT_MODEL_PRICES,
+  ModelPrice,
+  findModelPrice,
+} from './model-prices';
+import {
+  CostReportDto,
+  CostReportRowDto,
+  ResponseUsageDto,
+  UsageGroupBy,
+  UsageOperation,
+  UsageRecordDto,
+  UserBudgetDto,
+} from './dto/usage.dto';
+
+/**
+ * Attribution for the model calls made while answering one question
+ */
+export interface UsageContext {
+  responseId?: string;
+  userId?: string;
+  responseMode?: string;
+  /** Set by EvaluationService; such calls have no budget and are reported apart */
+  evaluation?: boolean;
+}
+
+export interface UsageEvent {
+  operation: UsageOperation;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+interface CostRow {
+  key: string | null;
+  responses: bigint;
+  calls: bigint;
+  prompt_tokens: bigint | null;
+  completion_tokens: bigint | null;
+  cost_usd: number | null;
+}
+
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+
+  private readonly storage = new AsyncLocalStorage<UsageContext>();
+  private readonly prices: Record<string, ModelPrice>;
+
+  /** USER_DAILY_BUDGET_USD; undefined when budgets are not enforced */
+  readonly dailyBudgetUsd?: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...this.parsePrices() };
+
+    const budget = parseFloat(
+      this.configService.get<string>('USER_DAILY_BUDGET_USD') || '',
+    );
+    this.dailyBudgetUsd = budget > 0 ? budget : undefined;
+  }
+
+  /**
+   * Run fn with the given attribution; usage recorded inside it is stored against it
+   */
+  run<T>(context: UsageContext, fn: () => T): T {
+    return this.storage.run(context, fn);
+  }
+
+  /**
+   * Like run, for async generators: every step of the generator runs with the attribution,
+   * since code resumed after a yield would otherwise see the consumer's context
+   */
+  async *runGenerator<T>(
+    context: UsageContext,
+    generator: () => AsyncGenerator<T>,
+  ): AsyncGenerator<T> {
+    const iterator = this.storage.run(context, generator);
+    try {
+      for (;;) {
+        const next = await this.storage.run(context, () => iterator.next());
+        if (next.done) {
+          return;
+        }
+        yield next.value;
+      }
+    } finally {
+      await this.storage.run(context, () => iterator.return(undefined));
+    }
+  }
+
+  /**
+   * Whether the current calls are made for an evaluation run
+   */
+  isEvaluation(): boolean {
+    return !!this.storage.getStore()?.evaluation;
+  }
+
+  /**
+   * Cost in USD of a call from the model price table
+   */
+  calculateCost(
+    model: string,
+    promptTokens: number,
+    completionTokens: number,
+  ): number {
+    const price = findModelPrice(this.prices, model);
+    if (!price) {
+      return 0;
+    }
+    return (promptTokens * price.input + completionTokens * price.output) / 1e6;
+  }
+
+  /**
+   * Price and store the usage of one model call; never throws so metering cannot
+   * break answering
+   */
+  async record(event: UsageEvent): Promise<void> {
+    const context = this.storage.getStore() || {};
+
+    try {
+      await this.prisma.usageRecord.create({
+        data: {
+          responseId: context.responseId,
+          userId: context.userId,
+          responseMode: context.responseMode,
+          evaluation: !!context.evaluation,
+          operation: event.operation,
+          model: event.model,
+          promptTokens: event.promptTokens,
+          completionTokens: event.completionTokens,
+          costUsd: this.calculateCost(
+            event.model,
+            event.promptTokens,
+            event.completionTokens,
+          ),
+        },
+      });
+    } catch (error: any) {
+      this.logger.warn(`Failed to record token usage: ${error.message}`);
+    }
+  }
+
+  /**
+   * Whether the user has spent their daily budget; such users get extractive answers
+   */
+  async isOverBudget(userId?: string): Promise<boolean> {
+    if (!userId || this.isEvaluation() || this.dailyBudgetUsd === undefined) {
+      return false;
+    }
+
+    const spent = await this.getSpentToday(userId);
+    if (spent < this.dailyBudgetUsd) {
+      return false;
+    }
+
+    this.logger.warn(
+      `User ${userId} is over the daily budget ($${spent.toFixed(4)} of $${this.dailyBudgetUsd})`,
+    );
+    return true;
+  }
+
+  /**
+   * Today's spend and remaining budget of a user
+   */
+  async getUserBudget(userId: string): Promise<UserBudgetDto> {
+    const spentTodayUsd = await this.getSpentToday(userId);
+
+    return {
+      userId,
+      dailyBudgetUsd: this.dailyBudgetUsd,
+      spentTodayUsd: this.roundCost(spentTodayUsd),
+      remainingUsd:
+        this.dailyBudgetUsd !== undefined
+          ? this.roundCost(Math.max(this.dailyBudgetUsd - spentTodayUsd, 0))
+          : undefined,
+      exceeded:
+        this.dailyBudgetUsd !== undefined &&
+        spentTodayUsd >= this.dailyBudgetUsd,
+    };
+  }
+
+  /**
+   * Model calls made for one RAG response, or null if none were recorded
+   */
+  async getResponseUsage(responseId: string): Promise<ResponseUsageDto | null> {
+    const records = await this.prisma.usageRecord.findMany({
+      where: { responseId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (records.length === 0) {
+      return null;
+    }
+
+    const dtos = records.map((record: any) => this.toDto(record));
+    return {
+      responseId,
+      promptTokens: dtos.reduce((sum, r) => sum + r.promptTokens, 0),
+      completionTokens: dtos.reduce((sum, r) => sum + r.completionTokens, 0),
+      costUsd: this.roundCost(dtos.reduce((sum, r) => sum + r.costUsd, 0)),
+      records: dtos,
+    };
+  }
+
+  /**
+   * Token usage and cost grouped by day, user or response mode, with evaluation runs
+   * in a row of their own. Defaults to the last 30 days.
+   */
+  async getCostReport(
+    groupBy: UsageGroupBy,
+    from?: Date,
+    to?: Date,
+  ): Promise<CostReportDto> {
+    const end = to || new Date();
+    const start = from || new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    const [rows, evaluationRows] = await Promise.all([
+      this.queryCosts(groupBy, start, end),
+      this.queryEvaluationCosts(start, end),
+    ]);
+    const reportRows = rows.map((row) => this.toReportRow(row));
+    const evaluation =
+      evaluationRows.length > 0 && Number(evaluationRows[0].calls) > 0
+        ? this.toReportRow(evaluationRows[0])
+        : undefined;
+
+    return {
+      groupBy,
+      from: start,
+      to: end,
+      totalCostUsd: this.roundCost(
+        reportRows.reduce((sum, row) => sum + row.costUsd, 0) +
+          (evaluation?.costUsd || 0),
+      ),
+      rows: reportRows,
+      evaluation,
+    };
+  }
+
+  private queryCosts(
+    groupBy: UsageGroupBy,
+    from: Date,
+    to: Date,
+  ): Promise<CostRow[]> {
+    switch (groupBy) {
+      case UsageGroupBy.USER:
+        return this.prisma.$queryRaw`
+          SELECT
+            user_id as key,
+            COUNT(DISTINCT response_id) as responses,
+            COUNT(*) as calls,
+            SUM(prompt_tokens) as prompt_tokens,
+            SUM(completion_tokens) as completion_tokens,
+            SUM(cost_usd) as cost_usd
+          FROM usage_records
+          WHERE created_at >= ${from} AND created_at < ${to}
+            AND NOT evaluation
+          GROUP BY user_id
+          ORDER BY cost_usd DESC
+        ` as Promise<CostRow[]>;
+      case UsageGroupBy.MODE:
+        return this.prisma.$queryRaw`
+          SELECT
+            response_mode as key,
+            COUNT(DISTINCT response_id) as responses,
+            COUNT(*) as calls,
+            SUM(prompt_tokens) as prompt_tokens,
+            SUM(completion_tokens) as completion_tokens,
+            SUM(cost_usd) as cost_usd
+          FROM usage_records
+          WHERE created_at >= ${from} AND created_at < ${to}
+            AND NOT evaluation
+          GROUP BY response_mode
+          ORDER BY cost_usd DESC
+        ` as Promise<CostRow[]>;
+      default:
+        return this.prisma.$queryRaw`
+          SELECT
+            to_char(created_at, 'YYYY-MM-DD') as key,
+            COUNT(DISTINCT response_id) as responses,
+            COUNT(*) as calls,
+            SUM(prompt_tokens) as prompt_tokens,
+            SUM(completion_tokens) as completion_tokens,
+            SUM(cost_usd) as cost_usd
+          FROM usage_records
+          WHERE created_at >= ${from} AND created_at < ${to}
+            AND NOT evaluation
+          GROUP BY key
+          ORDER BY key DESC
+        ` as Promise<CostRow[]>;
+    }
+  }
+
+  private queryEvaluationCosts(from: Date, to: Date): Promise<CostRow[]> {
+    return this.prisma.$queryRaw`
+      SELECT
+        'evaluation' as key,
+        COUNT(DISTINCT response_id) as responses,
+        COUNT(*) as calls,
+        SUM(prompt_tokens) as prompt_tokens,
+        SUM(completion_tokens) as completion_tokens,
+        SUM(cost_usd) as cost_usd
+      FROM usage_records
+      WHERE created_at >= ${from} AND created_at < ${to}
+        AND evaluation
+    ` as Promise<CostRow[]>;
+  }
+
+  private toReportRow(row: CostRow): CostReportRowDto {
+    return {
+      key: row.key || 'unknown',
+      responses: Number(row.responses),
+      calls: Number(row.calls),
+      promptTokens: Number(row.prompt_tokens || 0),
+      completionTokens: Number(row.completion_tokens || 0),
+      costUsd: this.roundCost(row.cost_usd || 0),
+    };
+  }
+
+  private async getSpentToday(userId: string): Promise<number> {
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const result = await this.prisma.usageRecord.aggregate({
+      where: { userId, evaluation: false, createdAt: { gte: startOfDay } },
+      _sum: { costUsd: true },
+    });
+    return result._sum.costUsd || 0;
+  }
+
+  private parsePrices(): Record<string, ModelPrice> {
+    const raw = this.configService.get<string>('MODEL_PRICES');
+    if (!raw) {
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as Record<string, ModelPrice>;
+      return Object.fromEntries(
+        Object.entries(parsed).map(([model, price]) => [
+          model.toLowerCase(),
+          {
+            input: Number(price.input) || 0,
+            output: Number(price.output) || 0,
+          },
+        ]),
+      );
+    } catch (error: any) {
+      this.logger.warn(`Ignoring invalid MODEL_PRICES: ${error.message}`);
+      return {};
+    }
+  }
+
+  private roundCost(cost: number): number {
+    return Math.round(cost * 1e6) / 1e6;
+  }
+
+  private toDto(record: any): UsageRecordDto {
+    return {
+      id: record.id,
+      responseId: record.responseId || undefined,
+      userId: record.userId || undefined,
+      responseMode: record.responseMode || undefined,
+      operation: record.operation,
+      model: record.model,
+      promptTokens: record.promptTokens,
+      completionTokens: record.completionTokens,
+      costUsd: record.costUsd,
+      createdAt: record.createdAt,
+    };
+  }
+}